@@ -0,0 +1,244 @@
+// Optional Gemini proxy for shared deployments. It holds the Google API key
+// server-side, forwards generateContent calls from the app and enforces
+// per-user request limits. No dependencies; needs Node 18 or later.
+//
+//   GEMINI_API_KEY=... PROXY_USERS_FILE=proxy/users.json npm run proxy
+//
+// Point the app at it with "Connect through proxy" in the API Configuration
+// card (Gemini profiles) or VITE_PROXY_URL.
+
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { Readable } from 'node:stream';
+
+const MINUTE_MS = 60_000;
+
+const list = (value) => (value ? value.split(',').map((item) => item.trim()).filter(Boolean) : []);
+
+// Request limits are numbers of requests, 0 meaning unlimited; anything
+// else is a configuration mistake and stops the proxy at startup
+const checkLimit = (label, value) => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    console.error(`${label} must be 0 (unlimited) or more, got ${JSON.stringify(value)}`);
+    process.exit(1);
+  }
+  return value;
+};
+
+// A request limit from the environment: unset, empty or non-numeric falls back
+// to the default
+const limit = (name, fallback) => {
+  const value = process.env[name]?.trim();
+  if (!value || !Number.isFinite(Number(value))) return fallback;
+  return checkLimit(name, Number(value));
+};
+
+const config = {
+  port: Number(process.env.PORT) || 8787,
+  apiKey: process.env.GEMINI_API_KEY || '',
+  upstream: (process.env.GEMINI_UPSTREAM_URL || 'https://generativelanguage.googleapis.com').replace(/\/+$/, ''),
+  usersFile: process.env.PROXY_USERS_FILE || '',
+  // Empty allows any origin; set it for anything reachable from the internet
+  allowedOrigins: list(process.env.PROXY_ALLOWED_ORIGINS),
+  // Empty allows any model
+  allowedModels: list(process.env.PROXY_ALLOWED_MODELS),
+  maxBodyBytes: (Number(process.env.PROXY_MAX_BODY_MB) || 25) * 1024 * 1024,
+  requestsPerMinute: limit('PROXY_REQUESTS_PER_MINUTE', 10),
+  requestsPerDay: limit('PROXY_REQUESTS_PER_DAY', 500),
+};
+
+// Methods the app calls; everything else in the Gemini API stays closed
+const METHODS = ['generateContent', 'streamGenerateContent'];
+const ROUTE = /^\/v1beta\/models\/([\w.-]+):(\w+)$/;
+
+if (!config.apiKey) {
+  console.error('GEMINI_API_KEY is not set');
+  process.exit(1);
+}
+
+// users.json: { "users": [{ "name": "alice", "token": "...", "requestsPerMinute": 20, "requestsPerDay": 1000 }] }
+// Without a users file every caller shares one anonymous user; only do that locally.
+const loadUsers = () => {
+  if (!config.usersFile) {
+    console.warn('PROXY_USERS_FILE is not set: requests are not authenticated');
+    return null;
+  }
+  const { users = [] } = JSON.parse(readFileSync(config.usersFile, 'utf8'));
+  // Per-user limits override the defaults and are checked the same way
+  const userLimit = (user, field) => (user[field] == null
+    ? config[field]
+    : checkLimit(`${field} for user "${user.name || 'unnamed'}" in ${config.usersFile}`, user[field]));
+  return new Map(users.filter((user) => user.token).map((user) => [user.token, {
+    name: user.name || 'unnamed',
+    requestsPerMinute: userLimit(user, 'requestsPerMinute'),
+    requestsPerDay: userLimit(user, 'requestsPerDay'),
+  }]));
+};
+
+const users = loadUsers();
+const anonymous = { name: 'anonymous', requestsPerMinute: config.requestsPerMinute, requestsPerDay: config.requestsPerDay };
+
+// Request timestamps in the last minute and the count for the current UTC day, per user name
+const usage = new Map();
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Count the request against the user's limits, or say why it can't go ahead.
+// A limit of 0 means unlimited.
+const takeRequest = (user) => {
+  const now = Date.now();
+  const entry = usage.get(user.name) ?? { recent: [], day: today(), count: 0 };
+  usage.set(user.name, entry);
+
+  entry.recent = entry.recent.filter((time) => now - time < MINUTE_MS);
+  if (entry.day !== today()) {
+    entry.day = today();
+    entry.count = 0;
+  }
+
+  if (user.requestsPerDay > 0 && entry.count >= user.requestsPerDay) {
+    return { status: 403, message: `Daily limit of ${user.requestsPerDay} requests reached` };
+  }
+  if (user.requestsPerMinute > 0 && entry.recent.length >= user.requestsPerMinute) {
+    const retryAfterMs = MINUTE_MS - (now - entry.recent[0]);
+    return { status: 429, message: `Limit of ${user.requestsPerMinute} requests per minute reached`, retryAfterMs };
+  }
+
+  entry.recent.push(now);
+  entry.count++;
+  return null;
+};
+
+const STATUS_CODES = { 400: 'INVALID_ARGUMENT', 401: 'UNAUTHENTICATED', 403: 'PERMISSION_DENIED', 404: 'NOT_FOUND', 413: 'INVALID_ARGUMENT', 429: 'RESOURCE_EXHAUSTED', 502: 'UNAVAILABLE' };
+
+// Errors use the Gemini API's shape so the app reports them the same way
+const sendError = (res, status, message, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ error: { code: status, message, status: STATUS_CODES[status] ?? 'UNKNOWN' } }));
+};
+
+const corsHeaders = (origin) => {
+  if (!origin) return {};
+  if (config.allowedOrigins.length > 0 && !config.allowedOrigins.includes(origin)) return {};
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Expose-Headers': 'Retry-After',
+    Vary: 'Origin',
+  };
+};
+
+const authenticate = (req) => {
+  if (!users) return anonymous;
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  return scheme === 'Bearer' ? users.get(token) : undefined;
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > config.maxBodyBytes) {
+        reject(new Error('too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const handle = async (req, res) => {
+  const url = new URL(req.url, 'http://localhost');
+  const cors = corsHeaders(req.headers.origin);
+  for (const [name, value] of Object.entries(cors)) res.setHeader(name, value);
+
+  if (req.method === 'GET' && url.pathname === '/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end('{"ok":true}');
+    return;
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const match = ROUTE.exec(url.pathname);
+  if (req.method !== 'POST' || !match || !METHODS.includes(match[2])) {
+    sendError(res, 404, 'Not found');
+    return;
+  }
+  const [, model, method] = match;
+  if (config.allowedModels.length > 0 && !config.allowedModels.includes(model)) {
+    sendError(res, 403, `Model ${model} is not available through this proxy`);
+    return;
+  }
+
+  const user = authenticate(req);
+  if (!user) {
+    sendError(res, 401, 'Missing or unknown proxy access token');
+    return;
+  }
+
+  const limited = takeRequest(user);
+  if (limited) {
+    const headers = limited.retryAfterMs ? { 'Retry-After': String(Math.ceil(limited.retryAfterMs / 1000)) } : {};
+    sendError(res, limited.status, limited.message, headers);
+    return;
+  }
+
+  let body;
+  try {
+    body = await readBody(req);
+  } catch {
+    sendError(res, 413, 'Request body is too large');
+    return;
+  }
+
+  // Stop the upstream call when the app cancels
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  const started = Date.now();
+  const query = url.searchParams.get('alt') === 'sse' ? '?alt=sse' : '';
+  let upstream;
+  try {
+    upstream = await fetch(`${config.upstream}/v1beta/models/${model}:${method}${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': config.apiKey },
+      body,
+      signal: controller.signal,
+    });
+  } catch {
+    if (!controller.signal.aborted) sendError(res, 502, 'Could not reach the Gemini API');
+    return;
+  }
+
+  console.log(`${new Date().toISOString()} ${user.name} ${model}:${method} ${upstream.status} ${Date.now() - started}ms`);
+
+  const headers = { 'Content-Type': upstream.headers.get('content-type') || 'application/json' };
+  const retryAfter = upstream.headers.get('retry-after');
+  if (retryAfter) headers['Retry-After'] = retryAfter;
+  res.writeHead(upstream.status, headers);
+  if (!upstream.body) {
+    res.end();
+    return;
+  }
+  Readable.fromWeb(upstream.body).on('error', () => res.destroy()).pipe(res);
+};
+
+createServer((req, res) => {
+  handle(req, res).catch((error) => {
+    // Never echo upstream details that could include the key
+    console.error('Proxy error:', error instanceof Error ? error.name : 'unknown');
+    if (!res.headersSent) sendError(res, 502, 'Proxy error');
+    else res.destroy();
+  });
+}).listen(config.port, () => {
+  console.log(`Gemini proxy listening on http://localhost:${config.port}`);
+});
@@ -0,0 +1,21 @@
+import React, { useEffect, useState } from 'react';
+
+interface CountdownProps {
+  // Epoch milliseconds
+  until: number;
+}
+
+// Whole seconds remaining until a timestamp, re-rendered every second
+const Countdown = ({ until }: CountdownProps) => {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [until]);
+
+  return <>{Math.max(0, Math.ceil((until - now) / 1000))}s</>;
+};
+
+export default Countdown;
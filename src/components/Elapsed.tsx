@@ -0,0 +1,22 @@
+import React, { useEffect, useState } from 'react';
+
+interface ElapsedProps {
+  // Epoch milliseconds
+  since: number;
+}
+
+// Time since a timestamp as "42s" or "1:05", re-rendered every second
+const Elapsed = ({ since }: ElapsedProps) => {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [since]);
+
+  const seconds = Math.max(0, Math.floor((now - since) / 1000));
+  return <>{seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`}</>;
+};
+
+export default Elapsed;
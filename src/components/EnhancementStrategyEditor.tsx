@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Plus, RotateCcw, Sparkles, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import {
+  createEnhancementStrategy,
+  MAX_OUTPUT_TOKENS_RANGE,
+  STARTER_STRATEGIES,
+  TEMPERATURE_RANGE,
+  type EnhancementStrategy,
+} from '@/lib/enhancement-strategies';
+
+interface EnhancementStrategyEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  strategies: EnhancementStrategy[];
+  onChange: (strategies: EnhancementStrategy[]) => void;
+  // Opens on this strategy
+  initialId: string;
+}
+
+// Add, edit and delete prompt enhancement strategies; edits apply as you type
+const EnhancementStrategyEditor = ({ open, onOpenChange, strategies, onChange, initialId }: EnhancementStrategyEditorProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = strategies.find((strategy) => strategy.id === (selectedId ?? initialId)) ?? strategies[0] ?? null;
+  const missingStarters = STARTER_STRATEGIES.filter((starter) => !strategies.some((strategy) => strategy.id === starter.id));
+
+  const update = (id: string, patch: Partial<EnhancementStrategy>) =>
+    onChange(strategies.map((strategy) => (strategy.id === id ? { ...strategy, ...patch } : strategy)));
+
+  const add = () => {
+    const strategy = createEnhancementStrategy();
+    onChange([...strategies, strategy]);
+    setSelectedId(strategy.id);
+  };
+
+  const remove = (id: string) => {
+    onChange(strategies.filter((strategy) => strategy.id !== id));
+    setSelectedId(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="w-5 h-5" />
+            Enhancement strategies
+          </DialogTitle>
+          <DialogDescription>
+            The instruction is sent to the text model as its system instruction, with your prompt as the message.
+            Replies are cleaned of quotes, labels and preambles before use.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-[200px_1fr]">
+          <div className="space-y-3">
+            <ScrollArea className="h-80 rounded-md border">
+              {strategies.map((strategy) => (
+                <button
+                  key={strategy.id}
+                  type="button"
+                  onClick={() => setSelectedId(strategy.id)}
+                  className={cn(
+                    'block w-full truncate border-b px-3 py-2 text-left text-sm font-medium last:border-b-0',
+                    strategy.id === selected?.id ? 'bg-purple-100' : 'hover:bg-gray-50',
+                  )}
+                >
+                  {strategy.name || 'Untitled'}
+                </button>
+              ))}
+            </ScrollArea>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={add}>
+                <Plus className="w-4 h-4 mr-2" />
+                New strategy
+              </Button>
+              {missingStarters.length > 0 && (
+                <Button variant="outline" size="sm" onClick={() => onChange([...strategies, ...missingStarters])}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Restore starters
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {selected ? (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="strategy-name">Name</Label>
+                <Input
+                  id="strategy-name"
+                  value={selected.name}
+                  onChange={(e) => update(selected.id, { name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="strategy-instruction">Instruction</Label>
+                <Textarea
+                  id="strategy-instruction"
+                  value={selected.instruction}
+                  onChange={(e) => update(selected.id, { instruction: e.target.value })}
+                  rows={6}
+                  className="resize-none"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <Label>Temperature</Label>
+                    <span className="text-gray-500">{selected.temperature.toFixed(1)}</span>
+                  </div>
+                  <Slider
+                    min={TEMPERATURE_RANGE.min}
+                    max={TEMPERATURE_RANGE.max}
+                    step={TEMPERATURE_RANGE.step}
+                    value={[selected.temperature]}
+                    onValueChange={([temperature]) => update(selected.id, { temperature })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="strategy-max-tokens">Max output tokens</Label>
+                  <Input
+                    id="strategy-max-tokens"
+                    type="number"
+                    min={MAX_OUTPUT_TOKENS_RANGE.min}
+                    max={MAX_OUTPUT_TOKENS_RANGE.max}
+                    value={selected.maxOutputTokens}
+                    onChange={(e) => update(selected.id, { maxOutputTokens: Math.max(0, Math.round(Number(e.target.value)) || 0) })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => remove(selected.id)}
+                  disabled={strategies.length === 1}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete strategy
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="py-12 text-center text-sm text-gray-500">No strategies; add one to get started</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EnhancementStrategyEditor;
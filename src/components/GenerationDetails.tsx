@@ -0,0 +1,40 @@
+import React from 'react';
+import { MessageSquare, Sparkles } from 'lucide-react';
+import PromptDiff from '@/components/PromptDiff';
+
+interface GenerationDetailsProps {
+  originalPrompt: string;
+  finalPrompt: string;
+  responseText?: string;
+}
+
+// Shows what was actually sent and any text the model returned with the image
+const GenerationDetails = ({ originalPrompt, finalPrompt, responseText }: GenerationDetailsProps) => {
+  const wasEnhanced = finalPrompt.trim() !== originalPrompt.trim();
+  if (!wasEnhanced && !responseText?.trim()) return null;
+
+  return (
+    <div className="mt-4 space-y-4">
+      {wasEnhanced && (
+        <div className="rounded-lg bg-white/5 border border-white/10 p-3 text-white">
+          <p className="flex items-center gap-2 text-xs font-medium uppercase tracking-wide text-purple-300 mb-2">
+            <Sparkles className="w-3 h-3" />
+            Original vs. enhanced prompt
+          </p>
+          <PromptDiff original={originalPrompt} enhanced={finalPrompt} />
+        </div>
+      )}
+      {responseText?.trim() && (
+        <div className="rounded-lg bg-white/5 border border-white/10 p-3">
+          <p className="flex items-center gap-2 text-xs font-medium uppercase tracking-wide text-purple-300 mb-2">
+            <MessageSquare className="w-3 h-3" />
+            Model response
+          </p>
+          <p className="text-sm text-white whitespace-pre-wrap">{responseText}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationDetails;
@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { History, RotateCcw, Search, Sparkles, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { toDataUrl } from '@/lib/image';
+import { matchesHistorySearch, type HistoryEntry } from '@/lib/history';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  isLoading: boolean;
+  onRestore: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+}
+
+const HistoryPanel = ({ entries, isLoading, onRestore, onDelete, onClear }: HistoryPanelProps) => {
+  const [query, setQuery] = useState('');
+
+  const filtered = useMemo(
+    () => entries.filter((entry) => matchesHistorySearch(entry, query)),
+    [entries, query]
+  );
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-lg border-white/20">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-white">
+          <span className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            History
+            <span className="text-sm font-normal text-purple-200">({entries.length})</span>
+          </span>
+          {entries.length > 0 && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Clear
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Clear generation history?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This permanently deletes all {entries.length} saved generations from this browser.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={onClear}>Clear history</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/60" />
+          <Input
+            placeholder="Search prompts..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-9 bg-white/10 border-white/20 text-white placeholder-white/60"
+          />
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-purple-200">Loading history...</p>
+        ) : filtered.length === 0 ? (
+          <p className="text-sm text-purple-200">
+            {entries.length === 0 ? 'Generated images will be saved here' : 'No generations match your search'}
+          </p>
+        ) : (
+          <ScrollArea className="h-96 pr-3">
+            <div className="space-y-3">
+              {filtered.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex gap-3 p-2 rounded-lg bg-white/5 border border-white/10"
+                >
+                  <img
+                    src={toDataUrl(entry.image)}
+                    alt={entry.prompt}
+                    className="w-20 h-20 object-cover rounded-md flex-shrink-0"
+                  />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className="text-sm text-white line-clamp-2" title={entry.prompt}>
+                      {entry.prompt}
+                    </p>
+                    {entry.enhancedPrompt && (
+                      <p className="flex items-center gap-1 text-xs text-purple-300 truncate" title={entry.enhancedPrompt}>
+                        <Sparkles className="w-3 h-3 flex-shrink-0" />
+                        {entry.enhancedPrompt}
+                      </p>
+                    )}
+                    <p className="text-xs text-white/60">
+                      {entry.mode === 'text-to-image' ? 'Text to Image' : 'Image to Image'} • {formatDistanceToNow(entry.createdAt, { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex flex-col gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Restore into editor"
+                      onClick={() => onRestore(entry)}
+                      className="h-8 w-8 text-white hover:bg-white/20"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete"
+                      onClick={() => onDelete(entry.id)}
+                      className="h-8 w-8 text-white hover:bg-red-500/30"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HistoryPanel;
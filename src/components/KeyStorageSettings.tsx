@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, Loader2, Lock, LockOpen, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  AUTO_LOCK_OPTIONS,
+  KEY_STORAGE_MODE_LABELS,
+  MIN_PASSPHRASE_LENGTH,
+  type KeyStorageMode,
+} from '@/lib/vault';
+
+interface KeyStorageSettingsProps {
+  mode: KeyStorageMode;
+  isLocked: boolean;
+  autoLockMinutes: number;
+  onAutoLockChange: (minutes: number) => void;
+  onEnableVault: (passphrase: string) => Promise<void>;
+  onDisableVault: (mode: Exclude<KeyStorageMode, 'vault'>) => void;
+  onLock: () => void;
+  onUnlock: () => void;
+}
+
+// Choose how API keys are kept: plain localStorage, encrypted, or memory only
+const KeyStorageSettings = ({
+  mode,
+  isLocked,
+  autoLockMinutes,
+  onAutoLockChange,
+  onEnableVault,
+  onDisableVault,
+  onLock,
+  onUnlock,
+}: KeyStorageSettingsProps) => {
+  const [selected, setSelected] = useState<KeyStorageMode>(mode);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isEncrypting, setIsEncrypting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Option waiting for confirmation, since leaving the vault deletes it
+  const [pendingMode, setPendingMode] = useState<Exclude<KeyStorageMode, 'vault'> | null>(null);
+
+  // Follow mode changes made elsewhere, e.g. erasing the vault from the unlock prompt
+  useEffect(() => {
+    setSelected(mode);
+  }, [mode]);
+
+  const settingUpVault = selected === 'vault' && mode !== 'vault';
+  const passphraseError = passphrase.length < MIN_PASSPHRASE_LENGTH
+    ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+    : passphrase !== confirmation
+    ? 'Passphrases do not match'
+    : null;
+
+  const handleSelect = (value: string) => {
+    const next = value as KeyStorageMode;
+    setError(null);
+    if (next !== 'vault' && mode === 'vault') {
+      setPendingMode(next);
+      return;
+    }
+    setSelected(next);
+    if (next !== 'vault') onDisableVault(next);
+  };
+
+  const confirmLeaveVault = () => {
+    if (!pendingMode) return;
+    setSelected(pendingMode);
+    onDisableVault(pendingMode);
+    setPendingMode(null);
+  };
+
+  const encrypt = async () => {
+    setIsEncrypting(true);
+    setError(null);
+    try {
+      await onEnableVault(passphrase);
+      setPassphrase('');
+      setConfirmation('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create the vault');
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
+  return (
+    <Collapsible className="rounded-lg border border-white/10 bg-white/5">
+      <CollapsibleTrigger className="group flex w-full items-center justify-between p-3 text-sm text-purple-200">
+        <span className="flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4" />
+          Key storage: {KEY_STORAGE_MODE_LABELS[mode]}
+          {mode === 'vault' && (isLocked ? ' (locked)' : ' (unlocked)')}
+        </span>
+        <ChevronDown className="w-4 h-4 transition-transform group-data-[state=open]:rotate-180" />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 px-3 pb-3">
+        <RadioGroup value={selected} onValueChange={handleSelect} className="space-y-1">
+          {(Object.keys(KEY_STORAGE_MODE_LABELS) as KeyStorageMode[]).map((option) => (
+            <label key={option} className="flex items-center gap-2 text-sm text-white">
+              <RadioGroupItem value={option} className="border-white/60 text-white" />
+              {KEY_STORAGE_MODE_LABELS[option]}
+            </label>
+          ))}
+        </RadioGroup>
+
+        {settingUpVault && (
+          <div className="space-y-2">
+            <Input
+              type="password"
+              placeholder="New passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className="bg-white/10 border-white/20 text-white placeholder-white/60"
+            />
+            <Input
+              type="password"
+              placeholder="Confirm passphrase"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              className="bg-white/10 border-white/20 text-white placeholder-white/60"
+            />
+            {passphrase && passphraseError && <p className="text-xs text-purple-300">{passphraseError}</p>}
+            <Button
+              size="sm"
+              onClick={encrypt}
+              disabled={passphraseError !== null || isEncrypting}
+              className="bg-purple-600 hover:bg-purple-700 text-white"
+            >
+              {isEncrypting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Lock className="w-4 h-4 mr-2" />}
+              Encrypt keys
+            </Button>
+          </div>
+        )}
+
+        {mode === 'vault' && (
+          <div className="flex items-center justify-between gap-3">
+            <label className="flex items-center gap-2 text-sm text-purple-200">
+              Auto-lock after
+              <Select value={autoLockMinutes.toString()} onValueChange={(value) => onAutoLockChange(Number(value))}>
+                <SelectTrigger className="h-8 w-24 bg-white/10 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTO_LOCK_OPTIONS.map((minutes) => (
+                    <SelectItem key={minutes} value={minutes.toString()}>{minutes} min</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </label>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={isLocked ? onUnlock : onLock}
+              className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+            >
+              {isLocked ? <LockOpen className="w-4 h-4 mr-2" /> : <Lock className="w-4 h-4 mr-2" />}
+              {isLocked ? 'Unlock' : 'Lock now'}
+            </Button>
+          </div>
+        )}
+
+        {mode === 'vault' && selected === 'vault' && (
+          <p className="text-xs text-purple-300">
+            Switching to another option deletes the vault; a locked vault's keys have to be entered again.
+          </p>
+        )}
+        {error && <p className="text-xs text-red-300">{error}</p>}
+
+        <AlertDialog open={pendingMode !== null} onOpenChange={(open) => !open && setPendingMode(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete the encrypted vault?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {isLocked
+                  ? 'The vault is locked, so the keys in it will be lost and have to be entered again.'
+                  : `Your keys will be kept as "${pendingMode ? KEY_STORAGE_MODE_LABELS[pendingMode] : ''}" instead of encrypted.`}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep vault</AlertDialogCancel>
+              <AlertDialogAction onClick={confirmLeaveVault}>Delete vault</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default KeyStorageSettings;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Loader2, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import Elapsed from '@/components/Elapsed';
+import type { Job } from '@/lib/job-queue';
+import type { GenerationJobInput, GenerationResult } from '@/lib/types';
+
+interface LiveGenerationProps {
+  job: Job<GenerationJobInput, GenerationResult[]>;
+  onCancel: (id: string) => void;
+}
+
+// The running job's stage, elapsed time and streamed text, with a stop button
+const LiveGeneration = ({ job, onCancel }: LiveGenerationProps) => (
+  <div className="mb-4 rounded-lg bg-white/5 border border-white/10 p-3 space-y-2">
+    <div className="flex items-center gap-3">
+      <Loader2 className="w-4 h-4 text-blue-300 animate-spin flex-shrink-0" />
+      <p className="flex-1 min-w-0 text-sm text-purple-200 truncate">
+        {job.message ?? 'Starting...'}
+        {job.startedAt && <> • <Elapsed since={job.startedAt} /></>}
+      </p>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onCancel(job.id)}
+        className="bg-white/10 border-white/20 text-white hover:bg-red-500/30"
+      >
+        <Square className="w-3 h-3 mr-2" />
+        Stop
+      </Button>
+    </div>
+    {job.text && <p className="text-sm text-white whitespace-pre-wrap">{job.text}</p>}
+  </div>
+);
+
+export default LiveGeneration;
@@ -0,0 +1,169 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Brush, Eraser, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { exportMask, loadMaskInto, MASK_PAINT_COLOR } from '@/lib/mask';
+import { toDataUrl } from '@/lib/image';
+import { logError } from '@/lib/redact';
+import type { Base64Image } from '@/lib/types';
+
+interface MaskEditorProps {
+  open: boolean;
+  image: Base64Image;
+  mask?: Base64Image;
+  // Called with undefined when the mask was cleared
+  onSave: (mask: Base64Image | undefined) => void;
+  onCancel: () => void;
+}
+
+type Tool = 'brush' | 'eraser';
+
+// Paint the region of an image that the model is allowed to change
+const MaskEditor = ({ open, image, mask, onSave, onCancel }: MaskEditorProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<Tool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+
+  // Size the mask canvas to the image's natural resolution once it loads
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight });
+  };
+
+  useEffect(() => {
+    if (!open) setSize(null);
+  }, [open]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !size) return;
+    canvas.width = size.width;
+    canvas.height = size.height;
+    if (mask) {
+      loadMaskInto(canvas, mask).catch((error) => logError('Failed to load mask:', error));
+    }
+  }, [size, mask]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+  };
+
+  const paint = useCallback((from: { x: number; y: number }, to: { x: number; y: number }, scale: number) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    context.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    context.strokeStyle = MASK_PAINT_COLOR;
+    context.lineWidth = brushSize * scale;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(to.x, to.y);
+    context.stroke();
+  }, [tool, brushSize]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y, scale } = toCanvasPoint(e);
+    lastPoint.current = { x, y };
+    paint({ x, y }, { x, y }, scale);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPoint.current) return;
+    const { x, y, scale } = toCanvasPoint(e);
+    paint(lastPoint.current, { x, y }, scale);
+    lastPoint.current = { x, y };
+  };
+
+  const handlePointerUp = () => {
+    lastPoint.current = null;
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  const save = async () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    onSave(await exportMask(canvas, image.name));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Paint edit region</DialogTitle>
+          <DialogDescription>
+            Paint over the area you want to change. Everything outside the painted region is kept as is.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <ToggleGroup type="single" value={tool} onValueChange={(value) => value && setTool(value as Tool)}>
+            <ToggleGroupItem value="brush" aria-label="Brush">
+              <Brush className="w-4 h-4 mr-2" />
+              Brush
+            </ToggleGroupItem>
+            <ToggleGroupItem value="eraser" aria-label="Eraser">
+              <Eraser className="w-4 h-4 mr-2" />
+              Eraser
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <div className="flex items-center gap-3 flex-1 min-w-[180px]">
+            <span className="text-sm text-muted-foreground whitespace-nowrap">Size {brushSize}px</span>
+            <Slider min={5} max={150} step={5} value={[brushSize]} onValueChange={([value]) => setBrushSize(value)} />
+          </div>
+          <Button variant="outline" size="sm" onClick={clear}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Clear
+          </Button>
+        </div>
+
+        <div className="relative max-h-[60vh] overflow-auto rounded-md bg-gray-900">
+          <img
+            src={toDataUrl(image)}
+            alt="Image to mask"
+            onLoad={handleImageLoad}
+            className="block w-full select-none"
+            draggable={false}
+          />
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+          />
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={!size}>
+            Apply mask
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface ModelSelectProps {
+  label: string;
+  models: Array<{ id: string; name: string }>;
+  // '' means the provider default
+  value: string;
+  defaultModel: string;
+  onChange: (model: string) => void;
+}
+
+const CUSTOM = '__custom__';
+// Radix Select reserves '' for "no value", so the server-default model needs a stand-in
+const SERVER_DEFAULT = '__default__';
+
+// Pick a registered model, or type the ID of one the registry doesn't know yet
+const ModelSelect = ({ label, models, value, defaultModel, onChange }: ModelSelectProps) => {
+  const current = value || defaultModel;
+  const [isCustom, setIsCustom] = useState(() => !models.some((model) => model.id === current));
+
+  const handleSelect = (selected: string) => {
+    if (selected === CUSTOM) {
+      setIsCustom(true);
+      return;
+    }
+    setIsCustom(false);
+    onChange(selected === SERVER_DEFAULT ? '' : selected);
+  };
+
+  return (
+    <div className="space-y-1">
+      <span className="text-xs text-purple-200">{label}</span>
+      <Select value={isCustom ? CUSTOM : current || SERVER_DEFAULT} onValueChange={handleSelect}>
+        <SelectTrigger className="bg-white/10 border-white/20 text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {models.map((model) => (
+            <SelectItem key={model.id || SERVER_DEFAULT} value={model.id || SERVER_DEFAULT}>
+              {model.name}
+            </SelectItem>
+          ))}
+          <SelectItem value={CUSTOM}>Custom model ID…</SelectItem>
+        </SelectContent>
+      </Select>
+      {isCustom && (
+        <Input
+          placeholder={defaultModel || 'Model ID'}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          aria-label={`${label} ID`}
+          className="bg-white/10 border-white/20 text-white placeholder-white/60"
+        />
+      )}
+    </div>
+  );
+};
+
+export default ModelSelect;
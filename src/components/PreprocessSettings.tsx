@@ -0,0 +1,98 @@
+import React from 'react';
+import { ChevronDown, SlidersHorizontal } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MAX_DIMENSION_OPTIONS, type PreprocessFormat, type PreprocessOptions } from '@/lib/preprocess';
+
+interface PreprocessSettingsProps {
+  options: PreprocessOptions;
+  onChange: (options: PreprocessOptions) => void;
+}
+
+const FORMAT_LABELS: Record<PreprocessFormat, string> = {
+  original: 'Keep original',
+  'image/jpeg': 'JPEG',
+  'image/webp': 'WebP',
+  'image/png': 'PNG',
+};
+
+const PreprocessSettings = ({ options, onChange }: PreprocessSettingsProps) => {
+  const update = (patch: Partial<PreprocessOptions>) => onChange({ ...options, ...patch });
+
+  return (
+    <Collapsible className="mt-4 rounded-lg border border-white/10 bg-white/5">
+      <CollapsibleTrigger className="group flex w-full items-center justify-between p-3 text-sm text-purple-200">
+        <span className="flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4" />
+          Preprocessing {options.enabled ? `(max ${options.maxDimension}px)` : '(off)'}
+        </span>
+        <ChevronDown className="w-4 h-4 transition-transform group-data-[state=open]:rotate-180" />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 px-3 pb-3">
+        <label className="flex items-center justify-between text-sm text-white">
+          Resize and strip metadata
+          <Switch checked={options.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+        </label>
+
+        {options.enabled && (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <span className="text-xs text-purple-200">Max dimension</span>
+                <Select
+                  value={options.maxDimension.toString()}
+                  onValueChange={(value) => update({ maxDimension: Number(value) })}
+                >
+                  <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MAX_DIMENSION_OPTIONS.map((size) => (
+                      <SelectItem key={size} value={size.toString()}>{size}px</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-purple-200">Format</span>
+                <Select
+                  value={options.format}
+                  onValueChange={(value) => update({ format: value as PreprocessFormat })}
+                >
+                  <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FORMAT_LABELS) as PreprocessFormat[]).map((format) => (
+                      <SelectItem key={format} value={format}>{FORMAT_LABELS[format]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {options.format !== 'image/png' && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-xs text-purple-200">
+                  <span>Quality</span>
+                  <span>{Math.round(options.quality * 100)}%</span>
+                </div>
+                <Slider
+                  min={0.5}
+                  max={1}
+                  step={0.05}
+                  value={[options.quality]}
+                  onValueChange={([quality]) => update({ quality })}
+                />
+              </div>
+            )}
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default PreprocessSettings;
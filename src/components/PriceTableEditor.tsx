@@ -0,0 +1,93 @@
+import React from 'react';
+import { Coins, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DEFAULT_PRICES, type ModelPrice, type PriceTable } from '@/lib/pricing';
+
+interface PriceTableEditorProps {
+  prices: PriceTable;
+  // Models to list besides the priced ones, e.g. those seen in usage records
+  models: string[];
+  onChange: (prices: PriceTable) => void;
+}
+
+const COLUMNS: Array<{ field: keyof ModelPrice; label: string }> = [
+  { field: 'inputPerMillion', label: '$ / 1M input tokens' },
+  { field: 'outputPerMillion', label: '$ / 1M output tokens' },
+  { field: 'perImage', label: '$ / image' },
+];
+
+const UNPRICED: ModelPrice = { inputPerMillion: 0, outputPerMillion: 0, perImage: 0 };
+
+// Editable prices used for the cost estimates
+const PriceTableEditor = ({ prices, models, onChange }: PriceTableEditorProps) => {
+  const rows = Array.from(new Set([...Object.keys(prices), ...models])).filter(Boolean).sort();
+
+  const update = (model: string, field: keyof ModelPrice, value: string) => onChange({
+    ...prices,
+    [model]: { ...UNPRICED, ...prices[model], [field]: Math.max(0, Number(value) || 0) },
+  });
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-lg border-white/20">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-white">
+          <span className="flex items-center gap-2">
+            <Coins className="w-5 h-5" />
+            Prices
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(DEFAULT_PRICES)}
+            className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset to defaults
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow className="border-white/10 hover:bg-transparent">
+              <TableHead className="text-purple-200">Model</TableHead>
+              {COLUMNS.map(({ field, label }) => (
+                <TableHead key={field} className="text-purple-200">{label}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((model) => (
+              <TableRow key={model} className="border-white/10 hover:bg-white/5">
+                <TableCell className="font-mono text-xs text-white">
+                  {model}
+                  {!prices[model] && <span className="ml-2 text-purple-300">(no price)</span>}
+                </TableCell>
+                {COLUMNS.map(({ field }) => (
+                  <TableCell key={field}>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={prices[model]?.[field] ?? 0}
+                      onChange={(e) => update(model, field, e.target.value)}
+                      className="h-8 w-28 bg-white/10 border-white/20 text-white"
+                    />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <p className="mt-3 text-xs text-purple-300">
+          Estimates only; check your provider's billing for actual charges.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PriceTableEditor;
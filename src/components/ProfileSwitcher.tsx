@@ -0,0 +1,33 @@
+import React from 'react';
+import { KeyRound } from 'lucide-react';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PROVIDER_IDS, PROVIDERS, profilesFor, type ProviderSettings } from '@/lib/providers';
+
+interface ProfileSwitcherProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+}
+
+// Navbar shortcut for switching credential profiles, grouped by provider
+const ProfileSwitcher = ({ settings, onChange }: ProfileSwitcherProps) => (
+  <Select value={settings.activeProfileId} onValueChange={(activeProfileId) => onChange({ ...settings, activeProfileId })}>
+    <SelectTrigger className="h-8 w-48 bg-white/10 border-white/20 text-white text-sm" aria-label="Active profile">
+      <KeyRound className="w-4 h-4 mr-2 flex-shrink-0 text-purple-300" />
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {PROVIDER_IDS.map((providerId) => (
+        <SelectGroup key={providerId}>
+          <SelectLabel>{PROVIDERS[providerId].name}</SelectLabel>
+          {profilesFor(settings, providerId).map((profile) => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name || 'Untitled'} · {PROVIDERS[providerId].name}
+            </SelectItem>
+          ))}
+        </SelectGroup>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export default ProfileSwitcher;
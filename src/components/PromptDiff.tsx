@@ -0,0 +1,32 @@
+import React, { useMemo } from 'react';
+import { diffWords } from '@/lib/diff';
+import { cn } from '@/lib/utils';
+
+interface PromptDiffProps {
+  original: string;
+  enhanced: string;
+  className?: string;
+}
+
+// Inline word diff: removed words struck through, added words highlighted
+const PromptDiff = ({ original, enhanced, className }: PromptDiffProps) => {
+  const tokens = useMemo(() => diffWords(original, enhanced), [original, enhanced]);
+
+  return (
+    <p className={cn('text-sm leading-relaxed whitespace-pre-wrap', className)}>
+      {tokens.map((token, index) => (
+        <span
+          key={index}
+          className={cn(
+            token.type === 'added' && 'bg-green-500/20 text-green-200 rounded-sm',
+            token.type === 'removed' && 'bg-red-500/20 text-red-300 line-through rounded-sm'
+          )}
+        >
+          {token.text}
+        </span>
+      ))}
+    </p>
+  );
+};
+
+export default PromptDiff;
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import PromptDiff from '@/components/PromptDiff';
+
+interface PromptReviewDialogProps {
+  open: boolean;
+  original: string;
+  enhanced: string;
+  onAccept: (prompt: string) => void;
+  onUseOriginal: () => void;
+  onCancel: () => void;
+}
+
+// Lets the user accept, edit or discard the enhanced prompt before generating
+const PromptReviewDialog = ({ open, original, enhanced, onAccept, onUseOriginal, onCancel }: PromptReviewDialogProps) => {
+  const [draft, setDraft] = useState(enhanced);
+
+  useEffect(() => {
+    setDraft(enhanced);
+  }, [enhanced]);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="w-5 h-5" />
+            Review enhanced prompt
+          </DialogTitle>
+          <DialogDescription>
+            Compare the enhanced prompt with your original and edit it before generating.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="rounded-md border bg-gray-900 p-3 text-white">
+            <PromptDiff original={original} enhanced={draft} />
+          </div>
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={6}
+            className="resize-none"
+          />
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onUseOriginal}>
+            Use original
+          </Button>
+          <Button onClick={() => onAccept(draft)} disabled={!draft.trim()}>
+            Generate with this prompt
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PromptReviewDialog;
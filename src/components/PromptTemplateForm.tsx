@@ -0,0 +1,59 @@
+import React, { useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { fillTemplate, templateVariables, variableLabel, type PromptTemplate } from '@/lib/prompt-templates';
+
+interface PromptTemplateFormProps {
+  template: PromptTemplate;
+  onSubmit: (prompt: string) => void;
+}
+
+// One required field per {{placeholder}}, with a live preview of the prompt.
+// Mount with `key={template.id}` so switching templates resets the form.
+const PromptTemplateForm = ({ template, onSubmit }: PromptTemplateFormProps) => {
+  const variables = useMemo(() => templateVariables(template.template), [template.template]);
+  const schema = useMemo(() => z.object(Object.fromEntries(
+    variables.map((name) => [name, z.string().trim().min(1, `${variableLabel(name)} is required`)]),
+  )), [variables]);
+
+  const form = useForm<Record<string, string>>({
+    resolver: zodResolver(schema),
+    defaultValues: Object.fromEntries(variables.map((name) => [name, ''])),
+  });
+  const preview = fillTemplate(template.template, form.watch());
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => onSubmit(fillTemplate(template.template, values)))} className="space-y-3">
+        {variables.map((name) => (
+          <FormField
+            key={name}
+            control={form.control}
+            name={name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{variableLabel(name)}</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        <p className="rounded-md border bg-gray-50 p-3 text-sm text-gray-700 whitespace-pre-wrap">{preview}</p>
+
+        <div className="flex justify-end">
+          <Button type="submit">Use this prompt</Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default PromptTemplateForm;
@@ -0,0 +1,233 @@
+import React, { useRef, useState } from 'react';
+import { BookOpen, Download, Plus, RotateCcw, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import PromptTemplateForm from '@/components/PromptTemplateForm';
+import { cn } from '@/lib/utils';
+import {
+  exportPromptTemplates,
+  mergePromptTemplates,
+  parsePromptTemplates,
+  STARTER_TEMPLATES,
+  templateCategories,
+  templateVariables,
+  type PromptTemplate,
+} from '@/lib/prompt-templates';
+
+interface PromptTemplateLibraryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: PromptTemplate[];
+  onChange: (templates: PromptTemplate[]) => void;
+  // The editor's prompt, offered for saving as a new template
+  currentPrompt: string;
+  onUse: (prompt: string) => void;
+}
+
+const ALL_CATEGORIES = 'all';
+
+const downloadJson = (json: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Browse, fill in, save, import and export prompt templates
+const PromptTemplateLibrary = ({ open, onOpenChange, templates, onChange, currentPrompt, onUse }: PromptTemplateLibraryProps) => {
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ name: '', category: '' });
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const categories = templateCategories(templates);
+  const visible = templates.filter((template) => category === ALL_CATEGORIES || template.category === category);
+  const selected = templates.find((template) => template.id === selectedId) ?? null;
+  const missingStarters = STARTER_TEMPLATES.filter((starter) => !templates.some((template) => template.id === starter.id));
+
+  const use = (prompt: string) => {
+    onUse(prompt);
+    onOpenChange(false);
+  };
+
+  const saveCurrentPrompt = () => {
+    const template = { id: crypto.randomUUID(), name: draft.name.trim(), category: draft.category.trim(), template: currentPrompt.trim() };
+    onChange([...templates, template]);
+    setSelectedId(template.id);
+    setDraft({ name: '', category: '' });
+  };
+
+  const remove = (id: string) => {
+    onChange(templates.filter((template) => template.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      onChange(mergePromptTemplates(templates, parsePromptTemplates(await file.text())));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Failed to import templates');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookOpen className="w-5 h-5" />
+            Prompt templates
+          </DialogTitle>
+          <DialogDescription>
+            Write placeholders as {'{{subject}}'}; each one becomes a field to fill in before the prompt is used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-[240px_1fr]">
+          <div className="space-y-3">
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {categories.map((name) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <ScrollArea className="h-72 rounded-md border">
+              {visible.length === 0 ? (
+                <p className="p-4 text-center text-sm text-gray-500">No templates</p>
+              ) : (
+                visible.map((template) => (
+                  <div
+                    key={template.id}
+                    className={cn(
+                      'group flex items-center justify-between gap-2 border-b px-3 py-2 last:border-b-0',
+                      template.id === selectedId ? 'bg-purple-100' : 'hover:bg-gray-50',
+                    )}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(template.id)}
+                      className="min-w-0 flex-1 text-left"
+                    >
+                      <p className="truncate text-sm font-medium">{template.name}</p>
+                      <p className="truncate text-xs text-gray-500">{template.category || 'Uncategorized'}</p>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => remove(template.id)}
+                      aria-label={`Delete ${template.name}`}
+                      className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </ScrollArea>
+
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadJson(exportPromptTemplates(templates), 'prompt-templates.json')}
+                disabled={templates.length === 0}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+              {missingStarters.length > 0 && (
+                <Button variant="outline" size="sm" onClick={() => onChange([...templates, ...missingStarters])}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Restore starters
+                </Button>
+              )}
+            </div>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importFile(file);
+                e.target.value = '';
+              }}
+            />
+            {importError && <p className="text-sm text-red-600">{importError}</p>}
+          </div>
+
+          <div className="space-y-6">
+            {selected ? (
+              <div className="space-y-3">
+                <div>
+                  <h3 className="font-semibold">{selected.name}</h3>
+                  <p className="text-sm text-gray-500 whitespace-pre-wrap">{selected.template}</p>
+                </div>
+                {templateVariables(selected.template).length > 0 ? (
+                  <PromptTemplateForm key={selected.id} template={selected} onSubmit={use} />
+                ) : (
+                  <div className="flex justify-end">
+                    <Button onClick={() => use(selected.template)}>Use this prompt</Button>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <p className="py-12 text-center text-sm text-gray-500">Pick a template to fill it in</p>
+            )}
+
+            <div className="space-y-2 border-t pt-4">
+              <p className="text-sm font-medium">Save the current prompt as a template</p>
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+                <Input
+                  placeholder="Category"
+                  value={draft.category}
+                  onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                  list="prompt-template-categories"
+                />
+                <datalist id="prompt-template-categories">
+                  {categories.map((name) => <option key={name} value={name} />)}
+                </datalist>
+                <Button onClick={saveCurrentPrompt} disabled={!draft.name.trim() || !currentPrompt.trim()}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Save
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PromptTemplateLibrary;
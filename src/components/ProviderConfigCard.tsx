@@ -0,0 +1,228 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Key, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import ModelSelect from '@/components/ModelSelect';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EMPTY_USAGE, type ProfileUsage } from '@/lib/profile-usage';
+import {
+  addProfile,
+  DEFAULT_PROXY_URL,
+  getActiveProfile,
+  getProvider,
+  imageModelsFor,
+  profilesFor,
+  PROVIDER_IDS,
+  PROVIDERS,
+  removeProfile,
+  selectProvider,
+  type ProviderConfig,
+  type ProviderId,
+  type ProviderSettings,
+  textModelsFor,
+  updateProfile,
+  usesProxy,
+} from '@/lib/providers';
+
+interface ProviderConfigCardProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  // Keys are in a locked vault and can't be edited
+  keysLocked?: boolean;
+  usage?: ProfileUsage;
+  onResetUsage?: () => void;
+  children?: React.ReactNode;
+}
+
+// API Configuration: provider and credential profile, plus the profile's key, endpoint and models
+const ProviderConfigCard = ({
+  settings,
+  onChange,
+  keysLocked = false,
+  usage = EMPTY_USAGE,
+  onResetUsage,
+  children,
+}: ProviderConfigCardProps) => {
+  const profile = getActiveProfile(settings);
+  const provider = getProvider(profile.providerId);
+  const { config } = profile;
+  const providerProfiles = profilesFor(settings, provider.id);
+  const proxied = usesProxy(provider, config);
+
+  const updateConfig = (patch: Partial<ProviderConfig>) => onChange(updateProfile(settings, profile.id, { config: patch }));
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-lg border-white/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-white">
+          <Key className="w-5 h-5" />
+          API Configuration
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Select
+          value={provider.id}
+          onValueChange={(providerId) => onChange(selectProvider(settings, providerId as ProviderId))}
+        >
+          <SelectTrigger className="bg-white/10 border-white/20 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PROVIDER_IDS.map((id) => (
+              <SelectItem key={id} value={id}>{PROVIDERS[id].name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Credential profile */}
+        <div className="flex items-center gap-2">
+          <Select value={profile.id} onValueChange={(activeProfileId) => onChange({ ...settings, activeProfileId })}>
+            <SelectTrigger className="w-40 bg-white/10 border-white/20 text-white" aria-label="Profile">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {providerProfiles.map((item) => (
+                <SelectItem key={item.id} value={item.id}>{item.name || 'Untitled'}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={profile.name}
+            onChange={(e) => onChange(updateProfile(settings, profile.id, { name: e.target.value }))}
+            aria-label="Profile name"
+            className="flex-1 bg-white/10 border-white/20 text-white"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            title="New profile"
+            onClick={() => onChange(addProfile(settings, provider.id, `Profile ${providerProfiles.length + 1}`))}
+            className="text-white hover:bg-white/20"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Delete profile"
+            disabled={providerProfiles.length <= 1}
+            onClick={() => onChange(removeProfile(settings, profile.id))}
+            className="text-white hover:bg-red-500/30"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+        <p className="flex items-center justify-between text-xs text-purple-300">
+          <span>
+            {usage.requests} requests • {usage.images} images
+            {usage.lastUsedAt && ` • last used ${formatDistanceToNow(usage.lastUsedAt, { addSuffix: true })}`}
+          </span>
+          {onResetUsage && usage.requests > 0 && (
+            <button type="button" onClick={onResetUsage} className="flex items-center gap-1 hover:text-white">
+              <RotateCcw className="w-3 h-3" />
+              Reset
+            </button>
+          )}
+        </p>
+
+        {provider.supportsProxy && (
+          <label className="flex items-center justify-between gap-3 text-sm text-purple-200">
+            Connect through team proxy
+            <Switch checked={config.useProxy} onCheckedChange={(useProxy) => updateConfig({ useProxy })} />
+          </label>
+        )}
+
+        {proxied ? (
+          <>
+            <Input
+              placeholder={DEFAULT_PROXY_URL || 'Proxy URL, e.g. https://proxy.example.com'}
+              value={config.proxyUrl}
+              onChange={(e) => updateConfig({ proxyUrl: e.target.value })}
+              aria-label="Proxy URL"
+              className="bg-white/10 border-white/20 text-white placeholder-white/60"
+            />
+            <Input
+              type="password"
+              placeholder={keysLocked ? 'Unlock the vault to use your saved token' : 'Proxy access token'}
+              value={config.apiKey}
+              disabled={keysLocked}
+              onChange={(e) => updateConfig({ apiKey: e.target.value })}
+              className="bg-white/10 border-white/20 text-white placeholder-white/60"
+            />
+          </>
+        ) : (
+          <>
+            {provider.requiresApiKey && (
+              <Input
+                type="password"
+                placeholder={keysLocked ? 'Unlock the vault to use your saved key' : `Enter your ${provider.name} API Key`}
+                value={config.apiKey}
+                disabled={keysLocked}
+                onChange={(e) => updateConfig({ apiKey: e.target.value })}
+                className="bg-white/10 border-white/20 text-white placeholder-white/60"
+              />
+            )}
+
+            {!provider.offline && (
+              <Input
+                placeholder={provider.defaultBaseUrl}
+                value={config.baseUrl}
+                onChange={(e) => updateConfig({ baseUrl: e.target.value })}
+                aria-label="Base URL"
+                className="bg-white/10 border-white/20 text-white placeholder-white/60"
+              />
+            )}
+          </>
+        )}
+
+        {/* Keyed by profile so the custom-ID toggle resets when switching */}
+        <div key={profile.id} className="grid grid-cols-2 gap-3">
+          <ModelSelect
+            label="Image model"
+            models={imageModelsFor(provider.id)}
+            value={config.model}
+            defaultModel={provider.defaultModel}
+            onChange={(model) => updateConfig({ model })}
+          />
+          {provider.enhancePrompt && (
+            <ModelSelect
+              label="Enhancement model"
+              models={textModelsFor(provider.id)}
+              value={config.enhanceModel}
+              defaultModel={provider.defaultEnhanceModel ?? ''}
+              onChange={(enhanceModel) => updateConfig({ enhanceModel })}
+            />
+          )}
+        </div>
+
+        <label className="flex items-center justify-between gap-3 text-sm text-purple-200">
+          Requests per minute (0 = unlimited)
+          <Input
+            type="number"
+            min={0}
+            value={config.requestsPerMinute}
+            onChange={(e) => updateConfig({ requestsPerMinute: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+            className="w-20 bg-white/10 border-white/20 text-white"
+          />
+        </label>
+
+        {children}
+
+        <p className="text-sm text-purple-200">
+          {provider.offline
+            ? 'Placeholder images are drawn in your browser; nothing is sent over the network. Add [mock:slow], [mock:error], [mock:blocked], [mock:429] or [mock:flaky] to a prompt to simulate failures'
+            : proxied
+            ? `Requests go to your team's proxy, which holds the ${provider.name} key and applies per-user limits`
+            : provider.requiresApiKey
+            ? `Your API key is only ever sent to ${provider.name}`
+            : 'Requests go straight from your browser to your own server; make sure it allows CORS from this origin'}
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProviderConfigCard;
@@ -0,0 +1,130 @@
+import React from 'react';
+import { AlertCircle, Ban, CheckCircle, Clock, ListOrdered, Loader2, Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import Countdown from '@/components/Countdown';
+import Elapsed from '@/components/Elapsed';
+import { isJobFinished, type Job, type JobStatus } from '@/lib/job-queue';
+import type { GenerationJobInput, GenerationResult } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+type GenerationJob = Job<GenerationJobInput, GenerationResult[]>;
+
+interface QueuePanelProps {
+  jobs: GenerationJob[];
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  queued: 'Queued',
+  enhancing: 'Enhancing',
+  generating: 'Generating',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const StatusIcon = ({ status }: { status: JobStatus }) => {
+  switch (status) {
+    case 'queued':
+      return <Clock className="w-4 h-4 text-white/60" />;
+    case 'enhancing':
+      return <Sparkles className="w-4 h-4 text-purple-300 animate-pulse" />;
+    case 'generating':
+      return <Loader2 className="w-4 h-4 text-blue-300 animate-spin" />;
+    case 'done':
+      return <CheckCircle className="w-4 h-4 text-green-300" />;
+    case 'failed':
+      return <AlertCircle className="w-4 h-4 text-red-300" />;
+    case 'cancelled':
+      return <Ban className="w-4 h-4 text-white/40" />;
+  }
+};
+
+// Overall progress: enhancement is the first 20%, generation the rest
+const overallProgress = (job: GenerationJob) => {
+  if (job.status === 'done') return 100;
+  if (job.status === 'enhancing') return 10;
+  if (job.status === 'generating') return 20 + job.progress * 80;
+  return 0;
+};
+
+const QueuePanel = ({ jobs, onCancel, onRemove, onClearFinished }: QueuePanelProps) => {
+  if (jobs.length === 0) return null;
+
+  const hasFinished = jobs.some((job) => isJobFinished(job.status));
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-lg border-white/20">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-white">
+          <span className="flex items-center gap-2">
+            <ListOrdered className="w-5 h-5" />
+            Queue
+          </span>
+          {hasFinished && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onClearFinished}
+              className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+            >
+              Clear finished
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-3">
+          {jobs.map((job) => {
+            const finished = isJobFinished(job.status);
+            return (
+              <li key={job.id} className="p-3 rounded-lg bg-white/5 border border-white/10 space-y-2">
+                <div className="flex items-center gap-3">
+                  <StatusIcon status={job.status} />
+                  <p className="flex-1 min-w-0 text-sm text-white truncate" title={job.input.prompt}>
+                    {job.input.prompt}
+                  </p>
+                  <span
+                    className={cn(
+                      'text-xs',
+                      job.status === 'failed' ? 'text-red-300' : job.status === 'done' ? 'text-green-300' : 'text-purple-200'
+                    )}
+                  >
+                    {STATUS_LABELS[job.status]}
+                    {job.input.variationCount > 1 && ` • ${job.input.variationCount}×`}
+                    {!finished && job.startedAt && <> • <Elapsed since={job.startedAt} /></>}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={finished ? 'Remove' : 'Cancel'}
+                    onClick={() => (finished ? onRemove(job.id) : onCancel(job.id))}
+                    className="h-7 w-7 text-white hover:bg-white/20"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+                {!finished && job.status !== 'queued' && (
+                  <Progress value={overallProgress(job)} className="h-1.5 bg-white/10" />
+                )}
+                {job.message && !finished && (
+                  <p className="text-xs text-purple-200">
+                    {job.message}
+                    {job.waitUntil && <> <Countdown until={job.waitUntil} /></>}
+                  </p>
+                )}
+                {job.error && <p className="text-xs text-red-300">{job.error}</p>}
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default QueuePanel;
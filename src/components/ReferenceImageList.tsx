@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Brush, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import MaskEditor from '@/components/MaskEditor';
+import { formatBytes, toDataUrl } from '@/lib/image';
+import {
+  moveReference,
+  REFERENCE_ROLE_LABELS,
+  type ReferenceImage,
+  type ReferenceRole,
+} from '@/lib/references';
+
+interface ReferenceImageListProps {
+  references: ReferenceImage[];
+  onChange: (references: ReferenceImage[]) => void;
+  // False when the current provider can't confine edits to a painted region
+  allowMasks?: boolean;
+}
+
+const formatSavings = ({ preprocess }: ReferenceImage) => {
+  if (!preprocess) return null;
+  const { originalWidth, originalHeight, width, height, originalBytes, processedBytes } = preprocess;
+  const saved = processedBytes < originalBytes
+    ? ` (${Math.round((1 - processedBytes / originalBytes) * 100)}% smaller)`
+    : '';
+  return `${originalWidth}×${originalHeight} → ${width}×${height} • ${formatBytes(originalBytes)} → ${formatBytes(processedBytes)}${saved}`;
+};
+
+// Attached reference images with per-image role, mask, reorder and remove controls
+const ReferenceImageList = ({ references, onChange, allowMasks = true }: ReferenceImageListProps) => {
+  const [maskingId, setMaskingId] = useState<string | null>(null);
+  const masking = references.find((reference) => reference.id === maskingId);
+
+  const update = (id: string, patch: Partial<ReferenceImage>) =>
+    onChange(references.map((reference) => (reference.id === id ? { ...reference, ...patch } : reference)));
+
+  return (
+    <>
+      <ol className="space-y-2">
+        {references.map((reference, index) => (
+          <li key={reference.id} className="flex items-center gap-3 p-2 rounded-lg bg-white/5 border border-white/10">
+            <span className="text-xs text-purple-200 w-4 text-center">{index + 1}</span>
+            <button
+              type="button"
+              title={!allowMasks ? undefined : reference.mask ? 'Edit mask' : 'Paint a region to edit'}
+              disabled={!allowMasks}
+              onClick={() => setMaskingId(reference.id)}
+              className="relative w-14 h-14 flex-shrink-0 rounded-md overflow-hidden group disabled:cursor-default"
+            >
+              <img
+                src={toDataUrl(reference.image)}
+                alt={reference.image.name || `Reference ${index + 1}`}
+                className="w-full h-full object-cover"
+              />
+              {allowMasks && reference.mask && (
+                <img
+                  src={toDataUrl(reference.mask)}
+                  alt=""
+                  className="absolute inset-0 w-full h-full object-cover mix-blend-screen opacity-60"
+                />
+              )}
+              <span className="absolute inset-0 flex items-center justify-center bg-black/50 opacity-0 group-enabled:group-hover:opacity-100 transition-opacity">
+                <Brush className="w-4 h-4 text-white" />
+              </span>
+            </button>
+            <div className="flex-1 min-w-0 space-y-1">
+              <p className="text-sm text-white truncate">{reference.image.name}</p>
+              {reference.preprocess && (
+                <p className="text-xs text-purple-300 truncate">{formatSavings(reference)}</p>
+              )}
+              {allowMasks && reference.mask && (
+                <p className="flex items-center gap-2 text-xs text-purple-300">
+                  Masked edit region
+                  <button
+                    type="button"
+                    onClick={() => update(reference.id, { mask: undefined })}
+                    className="underline hover:text-white"
+                  >
+                    remove
+                  </button>
+                </p>
+              )}
+              <Select
+                value={reference.role}
+                onValueChange={(role) => update(reference.id, { role: role as ReferenceRole })}
+              >
+                <SelectTrigger className="h-8 bg-white/10 border-white/20 text-white text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(REFERENCE_ROLE_LABELS) as ReferenceRole[]).map((role) => (
+                    <SelectItem key={role} value={role}>{REFERENCE_ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-col gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Move up"
+                disabled={index === 0}
+                onClick={() => onChange(moveReference(references, reference.id, -1))}
+                className="h-7 w-7 text-white hover:bg-white/20"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Move down"
+                disabled={index === references.length - 1}
+                onClick={() => onChange(moveReference(references, reference.id, 1))}
+                className="h-7 w-7 text-white hover:bg-white/20"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Remove"
+              onClick={() => onChange(references.filter((item) => item.id !== reference.id))}
+              className="h-7 w-7 text-white hover:bg-red-500/30"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </li>
+        ))}
+      </ol>
+      {masking && (
+        <MaskEditor
+          open
+          image={masking.image}
+          mask={masking.mask}
+          onSave={(mask) => {
+            update(masking.id, { mask });
+            setMaskingId(null);
+          }}
+          onCancel={() => setMaskingId(null)}
+        />
+      )}
+    </>
+  );
+};
+
+export default ReferenceImageList;
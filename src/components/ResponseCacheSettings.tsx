@@ -0,0 +1,101 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChevronDown, Database, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatBytes } from '@/lib/image';
+import { logError } from '@/lib/redact';
+import {
+  CACHE_SIZE_OPTIONS,
+  clearCache,
+  getCacheStats,
+  type CacheSettings,
+  type CacheStats,
+} from '@/lib/response-cache';
+
+interface ResponseCacheSettingsProps {
+  settings: CacheSettings;
+  onChange: (settings: CacheSettings) => void;
+}
+
+// Opt-in reuse of earlier responses for identical requests
+const ResponseCacheSettings = ({ settings, onChange }: ResponseCacheSettingsProps) => {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const update = (patch: Partial<CacheSettings>) => onChange({ ...settings, ...patch });
+
+  const refreshStats = useCallback(() => {
+    getCacheStats().then(setStats).catch((error) => logError('Failed to read response cache:', error));
+  }, []);
+
+  const clear = () => {
+    clearCache().then(refreshStats).catch((error) => logError('Failed to clear response cache:', error));
+  };
+
+  useEffect(() => {
+    if (settings.enabled) refreshStats();
+  }, [settings.enabled, refreshStats]);
+
+  return (
+    <Collapsible
+      className="mt-4 rounded-lg border border-white/10 bg-white/5"
+      onOpenChange={(open) => open && refreshStats()}
+    >
+      <CollapsibleTrigger className="group flex w-full items-center justify-between p-3 text-sm text-purple-200">
+        <span className="flex items-center gap-2">
+          <Database className="w-4 h-4" />
+          Response cache {settings.enabled ? `(up to ${settings.maxMegabytes} MB)` : '(off)'}
+        </span>
+        <ChevronDown className="w-4 h-4 transition-transform group-data-[state=open]:rotate-180" />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 px-3 pb-3">
+        <label className="flex items-center justify-between text-sm text-white">
+          Reuse results for identical requests
+          <Switch checked={settings.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+        </label>
+
+        {settings.enabled && (
+          <div className="space-y-1">
+            <span className="text-xs text-purple-200">Maximum size</span>
+            <Select
+              value={settings.maxMegabytes.toString()}
+              onValueChange={(value) => update({ maxMegabytes: Number(value) })}
+            >
+              <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CACHE_SIZE_OPTIONS.map((size) => (
+                  <SelectItem key={size} value={size.toString()}>{size} MB</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between text-xs text-purple-300">
+          <span>
+            {stats ? `${stats.entries} cached responses, ${formatBytes(stats.bytes)}` : 'Cache size unknown'}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={clear}
+            disabled={stats?.entries === 0}
+            className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Clear
+          </Button>
+        </div>
+
+        <p className="text-xs text-purple-300">
+          Requests match on model, final prompt, reference images and output settings. The least recently
+          used responses are dropped once the cache is full.
+        </p>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default ResponseCacheSettings;
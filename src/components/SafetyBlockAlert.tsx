@@ -0,0 +1,79 @@
+import React from 'react';
+import { ShieldAlert, X } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  BLOCK_REASON_EXPLANATIONS,
+  findSuspectTerms,
+  HARM_CATEGORY_LABELS,
+  PROBABILITY_LABELS,
+  type SafetyBlock,
+} from '@/lib/safety';
+
+interface SafetyBlockAlertProps {
+  prompt: string;
+  block: SafetyBlock;
+  onDismiss: () => void;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Prompt text with the likely trigger words highlighted. Terms match whole
+// words only, using the same word characters as findSuspectTerms (a plain \b
+// would split on accented letters, apostrophes and hyphens)
+const HighlightedPrompt = ({ prompt, terms }: { prompt: string; terms: string[] }) => {
+  if (terms.length === 0) return <>{prompt}</>;
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}'-])(${terms.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}'-])`, 'gu');
+  return (
+    <>
+      {prompt.split(pattern).map((piece, index) => (terms.includes(piece)
+        ? <mark key={index} className="rounded bg-red-500/40 px-0.5 text-white">{piece}</mark>
+        : <React.Fragment key={index}>{piece}</React.Fragment>))}
+    </>
+  );
+};
+
+// Explains a blocked generation: which filter fired and what to rephrase
+const SafetyBlockAlert = ({ prompt, block, onDismiss }: SafetyBlockAlertProps) => {
+  const terms = findSuspectTerms(prompt, block);
+
+  return (
+    <Alert className="border-2 bg-red-900/20 border-red-500/50 text-red-200">
+      <ShieldAlert className="h-4 w-4" />
+      <button
+        type="button"
+        onClick={onDismiss}
+        title="Dismiss"
+        className="absolute right-3 top-3 text-red-200 hover:text-white"
+      >
+        <X className="h-4 w-4" />
+      </button>
+      <AlertTitle>{block.source === 'prompt' ? 'Prompt blocked by safety filters' : 'Image withheld by safety filters'}</AlertTitle>
+      <AlertDescription className="space-y-2">
+        <p>{BLOCK_REASON_EXPLANATIONS[block.reason] ?? `Reason: ${block.reason}`}</p>
+        {block.ratings.length > 0 && (
+          <ul className="list-disc pl-5">
+            {block.ratings.map((rating) => (
+              <li key={rating.category}>
+                {HARM_CATEGORY_LABELS[rating.category]}: {PROBABILITY_LABELS[rating.probability]} probability
+                {rating.blocked && ' (blocked)'}
+              </li>
+            ))}
+          </ul>
+        )}
+        {terms.length > 0 && (
+          <div>
+            <p className="text-xs text-red-300">Words likely responsible:</p>
+            <p className="mt-1 rounded bg-white/5 p-2 text-sm text-white">
+              <HighlightedPrompt prompt={prompt} terms={terms} />
+            </p>
+          </div>
+        )}
+        {block.reason !== 'PROHIBITED_CONTENT' && (
+          <p className="text-xs text-red-300">Rephrase the prompt, or relax the matching category under Safety filters.</p>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default SafetyBlockAlert;
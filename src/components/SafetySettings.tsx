@@ -0,0 +1,54 @@
+import React from 'react';
+import { ChevronDown, ShieldAlert } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { HarmBlockThreshold } from '@/lib/gemini';
+import { HARM_CATEGORIES, HARM_CATEGORY_LABELS, THRESHOLD_LABELS, type SafetyThresholds } from '@/lib/safety';
+
+interface SafetySettingsProps {
+  thresholds: SafetyThresholds;
+  onChange: (thresholds: SafetyThresholds) => void;
+}
+
+// Block threshold per harm category; "Default" leaves it to the API
+const SafetySettings = ({ thresholds, onChange }: SafetySettingsProps) => {
+  const customised = HARM_CATEGORIES.filter((category) =>
+    (thresholds[category] ?? 'HARM_BLOCK_THRESHOLD_UNSPECIFIED') !== 'HARM_BLOCK_THRESHOLD_UNSPECIFIED').length;
+
+  return (
+    <Collapsible className="mt-4 rounded-lg border border-white/10 bg-white/5">
+      <CollapsibleTrigger className="group flex w-full items-center justify-between p-3 text-sm text-purple-200">
+        <span className="flex items-center gap-2">
+          <ShieldAlert className="w-4 h-4" />
+          Safety filters {customised > 0 ? `(${customised} customised)` : '(defaults)'}
+        </span>
+        <ChevronDown className="w-4 h-4 transition-transform group-data-[state=open]:rotate-180" />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2 px-3 pb-3">
+        {HARM_CATEGORIES.map((category) => (
+          <label key={category} className="flex items-center justify-between gap-3 text-sm text-white">
+            {HARM_CATEGORY_LABELS[category]}
+            <Select
+              value={thresholds[category] ?? 'HARM_BLOCK_THRESHOLD_UNSPECIFIED'}
+              onValueChange={(value) => onChange({ ...thresholds, [category]: value as HarmBlockThreshold })}
+            >
+              <SelectTrigger className="h-8 w-32 bg-white/10 border-white/20 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(THRESHOLD_LABELS) as HarmBlockThreshold[]).map((threshold) => (
+                  <SelectItem key={threshold} value={threshold}>{THRESHOLD_LABELS[threshold]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+        ))}
+        <p className="text-xs text-purple-300">
+          Lower thresholds block more. Some content is always blocked, whatever the setting.
+        </p>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default SafetySettings;
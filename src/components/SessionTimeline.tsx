@@ -0,0 +1,111 @@
+import React, { useMemo } from 'react';
+import { GitBranch, MessagesSquare, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { childrenOf, flattenTurns, pathTo, type EditSession, type SessionTurn } from '@/lib/session';
+import { toDataUrl } from '@/lib/image';
+import { cn } from '@/lib/utils';
+
+interface SessionTimelineProps {
+  session: EditSession;
+  onSelect: (turn: SessionTurn) => void;
+  onStartOver: () => void;
+  onReset: () => void;
+}
+
+// Tree of turns in the current editing session. Selecting a turn rolls the
+// session back to it; the next instruction then branches from that point.
+const SessionTimeline = ({ session, onSelect, onStartOver, onReset }: SessionTimelineProps) => {
+  const rows = useMemo(() => flattenTurns(session), [session]);
+  const activePath = useMemo(
+    () => new Set(pathTo(session, session.headId).map((turn) => turn.id)),
+    [session]
+  );
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-lg border-white/20">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-white">
+          <span className="flex items-center gap-2">
+            <MessagesSquare className="w-5 h-5" />
+            Editing Session
+          </span>
+          {rows.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onStartOver}
+                disabled={session.headId === null}
+                className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Start over
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onReset}
+                className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+              >
+                <X className="w-4 h-4 mr-2" />
+                End
+              </Button>
+            </div>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-purple-200">
+            Each generation becomes a turn. Follow-up prompts edit the latest image using the whole conversation.
+          </p>
+        ) : (
+          <ScrollArea className={rows.length > 4 ? 'h-80 pr-3' : 'pr-3'}>
+            <ol className="space-y-2">
+              {rows.map(({ turn, depth }) => {
+                const isHead = turn.id === session.headId;
+                const branches = childrenOf(session, turn.id).length;
+                return (
+                  <li key={turn.id} style={{ marginLeft: depth * 16 }}>
+                    <button
+                      type="button"
+                      onClick={() => onSelect(turn)}
+                      className={cn(
+                        'w-full flex items-center gap-3 p-2 rounded-lg border text-left transition-colors',
+                        isHead
+                          ? 'bg-purple-600/30 border-purple-400'
+                          : activePath.has(turn.id)
+                          ? 'bg-white/10 border-white/20'
+                          : 'bg-white/5 border-white/10 opacity-70 hover:opacity-100'
+                      )}
+                    >
+                      <img
+                        src={toDataUrl(turn.image)}
+                        alt={turn.instruction}
+                        className="w-12 h-12 object-cover rounded-md flex-shrink-0"
+                      />
+                      <span className="flex-1 min-w-0 text-sm text-white line-clamp-2">{turn.instruction}</span>
+                      {branches > 1 && (
+                        <span className="flex items-center gap-1 text-xs text-purple-200" title={`${branches} branches`}>
+                          <GitBranch className="w-3 h-3" />
+                          {branches}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                );
+              })}
+            </ol>
+          </ScrollArea>
+        )}
+        {session.headId === null && rows.length > 0 && (
+          <p className="text-xs text-purple-300 mt-3">The next prompt starts a new branch from scratch</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SessionTimeline;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { formatCost, type DailySpend } from '@/lib/pricing';
+
+interface SpendChartProps {
+  title: string;
+  spend: DailySpend;
+}
+
+const COLORS = ['#a855f7', '#ec4899', '#3b82f6', '#22c55e', '#f59e0b', '#14b8a6', '#f43f5e', '#8b5cf6'];
+
+// Stacked daily spend, one bar segment per series
+const SpendChart = ({ title, spend }: SpendChartProps) => {
+  const config: ChartConfig = Object.fromEntries(spend.series.map((series, index) => [
+    series.key,
+    { label: `${series.label} (${formatCost(series.total)})`, color: COLORS[index % COLORS.length] },
+  ]));
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-lg border-white/20">
+      <CardHeader>
+        <CardTitle className="text-white">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {spend.series.length === 0 ? (
+          <p className="py-12 text-center text-sm text-purple-200">No usage recorded in this period</p>
+        ) : (
+          <ChartContainer config={config} className="h-72 w-full text-white">
+            <BarChart data={spend.rows}>
+              <CartesianGrid vertical={false} stroke="rgba(255,255,255,0.1)" />
+              <XAxis
+                dataKey="date"
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(date: string) => format(parseISO(date), 'MMM d')}
+                tick={{ fill: 'rgba(255,255,255,0.7)' }}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={56}
+                tickFormatter={(dollars: number) => `$${dollars.toFixed(2)}`}
+                tick={{ fill: 'rgba(255,255,255,0.7)' }}
+              />
+              <ChartTooltip
+                content={(
+                  <ChartTooltipContent
+                    labelFormatter={(date: string) => format(parseISO(date), 'PP')}
+                    formatter={(value, name) => (
+                      <span className="flex w-full justify-between gap-4">
+                        <span>{spend.series.find((series) => series.key === name)?.label}</span>
+                        <span className="font-mono">{formatCost(Number(value))}</span>
+                      </span>
+                    )}
+                  />
+                )}
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              {spend.series.map((series) => (
+                <Bar key={series.key} dataKey={series.key} stackId="spend" fill={`var(--color-${series.key})`} />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SpendChart;
@@ -0,0 +1,193 @@
+import React, { useRef, useState } from 'react';
+import { ImagePlus, Palette, Plus, RotateCcw, Trash2, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import StylePresetThumbnail from '@/components/StylePresetThumbnail';
+import { logError } from '@/lib/redact';
+import { cn } from '@/lib/utils';
+import { createStylePreset, createThumbnail, STARTER_PRESETS, type StylePreset } from '@/lib/style-presets';
+import type { Base64Image } from '@/lib/types';
+
+interface StylePresetEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  presets: StylePreset[];
+  onChange: (presets: StylePreset[]) => void;
+  // Offered as a thumbnail source
+  generatedImage: Base64Image | null;
+}
+
+// Add, edit and delete style presets; edits apply as you type
+const StylePresetEditor = ({ open, onOpenChange, presets, onChange, generatedImage }: StylePresetEditorProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const selected = presets.find((preset) => preset.id === selectedId) ?? presets[0] ?? null;
+  const missingStarters = STARTER_PRESETS.filter((starter) => !presets.some((preset) => preset.id === starter.id));
+
+  const update = (id: string, patch: Partial<StylePreset>) =>
+    onChange(presets.map((preset) => (preset.id === id ? { ...preset, ...patch } : preset)));
+
+  const add = () => {
+    const preset = { ...createStylePreset(), name: 'New style' };
+    onChange([...presets, preset]);
+    setSelectedId(preset.id);
+  };
+
+  const remove = (id: string) => {
+    onChange(presets.filter((preset) => preset.id !== id));
+    setSelectedId(null);
+  };
+
+  const setThumbnail = (id: string, source: File | Base64Image) => {
+    createThumbnail(source)
+      .then((thumbnail) => update(id, { thumbnail }))
+      .catch((error) => logError('Failed to create preset thumbnail:', error));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Palette className="w-5 h-5" />
+            Style presets
+          </DialogTitle>
+          <DialogDescription>
+            Selected presets wrap your prompt in their prefix and suffix. Negative guidance is sent as a negative
+            prompt where the provider supports one, and as an "Avoid:" instruction otherwise.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-[220px_1fr]">
+          <div className="space-y-3">
+            <ScrollArea className="h-80 rounded-md border">
+              {presets.map((preset) => (
+                <button
+                  key={preset.id}
+                  type="button"
+                  onClick={() => setSelectedId(preset.id)}
+                  className={cn(
+                    'flex w-full items-center gap-3 border-b px-3 py-2 text-left last:border-b-0',
+                    preset.id === selected?.id ? 'bg-purple-100' : 'hover:bg-gray-50',
+                  )}
+                >
+                  <StylePresetThumbnail preset={preset} className="h-8 w-8 shrink-0 rounded text-sm" />
+                  <span className="truncate text-sm font-medium">{preset.name || 'Untitled'}</span>
+                </button>
+              ))}
+            </ScrollArea>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={add}>
+                <Plus className="w-4 h-4 mr-2" />
+                New preset
+              </Button>
+              {missingStarters.length > 0 && (
+                <Button variant="outline" size="sm" onClick={() => onChange([...presets, ...missingStarters])}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Restore starters
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {selected ? (
+            <div className="space-y-3">
+              <div className="flex items-start gap-4">
+                <StylePresetThumbnail preset={selected} className="h-24 w-24 shrink-0 rounded-md" />
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+                    <ImagePlus className="w-4 h-4 mr-2" />
+                    Upload thumbnail
+                  </Button>
+                  {generatedImage && (
+                    <Button variant="outline" size="sm" onClick={() => setThumbnail(selected.id, generatedImage)}>
+                      <Wand2 className="w-4 h-4 mr-2" />
+                      Use generated image
+                    </Button>
+                  )}
+                  {selected.thumbnail && (
+                    <Button variant="ghost" size="sm" onClick={() => update(selected.id, { thumbnail: undefined })}>
+                      Remove thumbnail
+                    </Button>
+                  )}
+                </div>
+                <input
+                  ref={fileInput}
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) setThumbnail(selected.id, file);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="preset-name">Name</Label>
+                <Input
+                  id="preset-name"
+                  value={selected.name}
+                  onChange={(e) => update(selected.id, { name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="preset-prefix">Prefix</Label>
+                <Input
+                  id="preset-prefix"
+                  placeholder="e.g. Cinematic film still of"
+                  value={selected.prefix}
+                  onChange={(e) => update(selected.id, { prefix: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="preset-suffix">Suffix</Label>
+                <Textarea
+                  id="preset-suffix"
+                  placeholder="e.g. cinematic lighting, 35mm, film grain"
+                  value={selected.suffix}
+                  onChange={(e) => update(selected.id, { suffix: e.target.value })}
+                  rows={2}
+                  className="resize-none"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="preset-negative">Negative guidance (optional)</Label>
+                <Textarea
+                  id="preset-negative"
+                  placeholder="e.g. blur, watermark, text"
+                  value={selected.negative}
+                  onChange={(e) => update(selected.id, { negative: e.target.value })}
+                  rows={2}
+                  className="resize-none"
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <Button variant="outline" size="sm" onClick={() => remove(selected.id)}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete preset
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="py-12 text-center text-sm text-gray-500">No presets; add one to get started</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StylePresetEditor;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Palette, Settings2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import StylePresetThumbnail from '@/components/StylePresetThumbnail';
+import { cn } from '@/lib/utils';
+import type { StyledPrompt, StylePreset } from '@/lib/style-presets';
+
+interface StylePresetGridProps {
+  presets: StylePreset[];
+  // In the order they were picked, which is the order they apply in
+  selectedIds: string[];
+  onSelectedChange: (ids: string[]) => void;
+  onManage: () => void;
+  // What the current prompt becomes with the selected presets
+  styled: StyledPrompt | null;
+}
+
+// Pick any number of style presets to wrap the prompt in
+const StylePresetGrid = ({ presets, selectedIds, onSelectedChange, onManage, styled }: StylePresetGridProps) => {
+  const toggle = (id: string) => onSelectedChange(
+    selectedIds.includes(id) ? selectedIds.filter((selected) => selected !== id) : [...selectedIds, id],
+  );
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-lg border-white/20">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-white">
+          <span className="flex items-center gap-2">
+            <Palette className="w-5 h-5" />
+            Style Presets
+          </span>
+          <div className="flex items-center gap-2">
+            {selectedIds.length > 0 && (
+              <Button
+                onClick={() => onSelectedChange([])}
+                variant="ghost"
+                size="sm"
+                className="text-purple-200 hover:bg-white/10 hover:text-white"
+              >
+                <X className="w-4 h-4 mr-1" />
+                Clear
+              </Button>
+            )}
+            <Button
+              onClick={onManage}
+              variant="outline"
+              size="sm"
+              className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+            >
+              <Settings2 className="w-4 h-4 mr-2" />
+              Manage
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {presets.length === 0 ? (
+          <p className="text-sm text-purple-200">No presets yet; add one with Manage.</p>
+        ) : (
+          <div className="grid grid-cols-4 gap-3">
+            {presets.map((preset) => {
+              const order = selectedIds.indexOf(preset.id);
+              return (
+                <button
+                  key={preset.id}
+                  type="button"
+                  onClick={() => toggle(preset.id)}
+                  aria-pressed={order >= 0}
+                  title={[preset.prefix, preset.suffix].filter(Boolean).join(' … ')}
+                  className={cn(
+                    'relative overflow-hidden rounded-md border-2 text-left transition-all',
+                    order >= 0
+                      ? 'border-purple-400 ring-2 ring-purple-400/50'
+                      : 'border-white/20 opacity-80 hover:opacity-100'
+                  )}
+                >
+                  <StylePresetThumbnail preset={preset} className="aspect-square w-full" />
+                  <span className="absolute inset-x-0 bottom-0 truncate bg-black/60 px-1.5 py-0.5 text-xs text-white">
+                    {preset.name || 'Untitled'}
+                  </span>
+                  {order >= 0 && (
+                    <span className="absolute top-1 right-1 flex h-5 w-5 items-center justify-center rounded-full bg-purple-600 text-xs text-white">
+                      {order + 1}
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {styled && (
+          <div className="mt-4 space-y-1 rounded-lg border border-white/10 bg-white/5 p-3 text-xs">
+            <p className="text-purple-200">Prompt with styles</p>
+            <p className="text-white whitespace-pre-wrap">{styled.prompt}</p>
+            {styled.negativePrompt && (
+              <p className="text-purple-300">Negative prompt: {styled.negativePrompt}</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StylePresetGrid;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import type { StylePreset } from '@/lib/style-presets';
+
+interface StylePresetThumbnailProps {
+  preset: StylePreset;
+  className?: string;
+}
+
+const GRADIENTS = [
+  'from-purple-500 to-pink-500',
+  'from-blue-500 to-cyan-400',
+  'from-amber-500 to-rose-500',
+  'from-emerald-500 to-teal-400',
+  'from-indigo-500 to-purple-400',
+  'from-orange-400 to-yellow-300',
+];
+
+// The preset's thumbnail, or a gradient tile with its initial when it has none
+const StylePresetThumbnail = ({ preset, className }: StylePresetThumbnailProps) => {
+  if (preset.thumbnail) {
+    return <img src={preset.thumbnail} alt="" className={cn('object-cover', className)} />;
+  }
+
+  const gradient = GRADIENTS[Array.from(preset.id).reduce((sum, char) => sum + char.charCodeAt(0), 0) % GRADIENTS.length];
+  return (
+    <div className={cn('flex items-center justify-center bg-gradient-to-br text-2xl font-bold text-white/90', gradient, className)}>
+      {(preset.name || '?').charAt(0).toUpperCase()}
+    </div>
+  );
+};
+
+export default StylePresetThumbnail;
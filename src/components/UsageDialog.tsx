@@ -0,0 +1,169 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart3, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import SpendChart from '@/components/SpendChart';
+import PriceTableEditor from '@/components/PriceTableEditor';
+import { useUsageLog } from '@/hooks/use-usage-log';
+import { dailySpendBy, estimateCost, formatCost, loadPriceTable, rangeStart, savePriceTable } from '@/lib/pricing';
+import { PROVIDERS, type CredentialProfile } from '@/lib/providers';
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+interface UsageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Profiles as currently configured, for labels; records outlive deleted profiles
+  profiles: CredentialProfile[];
+}
+
+// The report itself; mounted only while the dialog is open, so records are
+// reloaded each time it opens
+const UsageReport = ({ profiles }: { profiles: CredentialProfile[] }) => {
+  const usageLog = useUsageLog();
+  const [prices, setPrices] = useState(loadPriceTable);
+  const [days, setDays] = useState(30);
+
+  useEffect(() => {
+    savePriceTable(prices);
+  }, [prices]);
+
+  const profileLabels = useMemo(() => new Map(profiles.map((profile) =>
+    [profile.id, `${profile.name || 'Untitled'} · ${PROVIDERS[profile.providerId].name}`])), [profiles]);
+
+  const { records } = usageLog;
+  const since = rangeStart(days);
+  const inRange = records.filter((record) => record.createdAt >= since);
+  const totals = {
+    cost: inRange.reduce((sum, record) => sum + estimateCost(record, prices), 0),
+    requests: inRange.length,
+    images: inRange.reduce((sum, record) => sum + record.images, 0),
+    tokens: inRange.reduce((sum, record) => sum + record.totalTokens, 0),
+  };
+
+  const byModel = dailySpendBy(records, prices, (record) => record.model || PROVIDERS[record.provider]?.name, days);
+  const byProfile = dailySpendBy(records, prices, (record) => profileLabels.get(record.profileId) ?? 'Deleted profile', days);
+  const seenModels = Array.from(new Set(records.map((record) => record.model)));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <ToggleGroup
+          type="single"
+          value={days.toString()}
+          onValueChange={(value) => value && setDays(Number(value))}
+        >
+          {RANGE_OPTIONS.map((option) => (
+            <ToggleGroupItem
+              key={option}
+              value={option.toString()}
+              size="sm"
+              className="text-white data-[state=on]:bg-purple-600 data-[state=on]:text-white hover:bg-white/20 hover:text-white"
+            >
+              {option} days
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+
+        {records.length > 0 && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Clear usage data
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Clear usage data?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  This permanently deletes all {records.length} usage records from this browser.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => usageLog.clear()}>Clear usage data</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          ['Estimated spend', formatCost(totals.cost)],
+          ['Requests', totals.requests.toLocaleString()],
+          ['Images', totals.images.toLocaleString()],
+          ['Tokens', totals.tokens.toLocaleString()],
+        ].map(([label, value]) => (
+          <Card key={label} className="bg-white/10 backdrop-blur-lg border-white/20">
+            <CardContent className="p-4">
+              <p className="text-xs text-purple-200">{label}</p>
+              <p className="text-2xl font-semibold text-white">{value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {usageLog.isLoading ? (
+        <p className="flex items-center gap-2 text-sm text-purple-200">
+          <BarChart3 className="w-4 h-4" />
+          Loading usage...
+        </p>
+      ) : (
+        <>
+          <SpendChart title="Daily spend by model" spend={byModel} />
+          <SpendChart title="Daily spend by key profile" spend={byProfile} />
+        </>
+      )}
+
+      <PriceTableEditor prices={prices} models={seenModels} onChange={setPrices} />
+    </div>
+  );
+};
+
+// Estimated spend from recorded API usage, per model and per key profile.
+// A dialog rather than a page so the studio (session keys, the unlocked
+// vault and the job queue) stays mounted while it is open.
+const UsageDialog = ({ open, onOpenChange, profiles }: UsageDialogProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto border-white/20 bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 text-white">
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2 text-white">
+          <BarChart3 className="w-5 h-5" />
+          Usage
+        </DialogTitle>
+        <DialogDescription className="text-purple-200">
+          Estimated from the tokens and images each successful call reported.
+        </DialogDescription>
+      </DialogHeader>
+      {open && <UsageReport profiles={profiles} />}
+    </DialogContent>
+  </Dialog>
+);
+
+export default UsageDialog;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { toDataUrl } from '@/lib/image';
+import { cn } from '@/lib/utils';
+import type { Base64Image } from '@/lib/types';
+
+interface VariationGridProps {
+  images: Base64Image[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+}
+
+// Thumbnail strip for picking one of several generated variations
+const VariationGrid = ({ images, selectedIndex, onSelect }: VariationGridProps) => {
+  if (images.length < 2) return null;
+
+  return (
+    <div className="grid grid-cols-4 gap-3 mt-4">
+      {images.map((image, index) => (
+        <button
+          key={index}
+          type="button"
+          onClick={() => onSelect(index)}
+          aria-label={`Select variation ${index + 1}`}
+          aria-pressed={index === selectedIndex}
+          className={cn(
+            'relative aspect-square rounded-md overflow-hidden border-2 transition-all',
+            index === selectedIndex
+              ? 'border-purple-400 ring-2 ring-purple-400/50'
+              : 'border-white/20 opacity-70 hover:opacity-100'
+          )}
+        >
+          <img
+            src={toDataUrl(image)}
+            alt={`Variation ${index + 1}`}
+            className="w-full h-full object-cover"
+          />
+          <span className="absolute bottom-1 right-1 text-xs px-1.5 rounded bg-black/60 text-white">
+            {index + 1}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default VariationGrid;
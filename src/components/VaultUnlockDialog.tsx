@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, LockKeyhole } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface VaultUnlockDialogProps {
+  open: boolean;
+  // Rejects (e.g. wrong passphrase) to keep the dialog open with the error shown
+  onUnlock: (passphrase: string) => Promise<void>;
+  onCancel: () => void;
+  // Forgotten passphrase: discard the vault and start over
+  onForget: () => void;
+}
+
+// Passphrase prompt for the encrypted key vault
+const VaultUnlockDialog = ({ open, onUnlock, onCancel, onForget }: VaultUnlockDialogProps) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [confirmForget, setConfirmForget] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setPassphrase('');
+      setError(null);
+      setConfirmForget(false);
+    }
+  }, [open]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock the vault');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={submit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <LockKeyhole className="w-5 h-5" />
+              Unlock API keys
+            </DialogTitle>
+            <DialogDescription>
+              Your API keys are encrypted on this device. Enter your passphrase to use them.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Input
+            type="password"
+            autoFocus
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {confirmForget && (
+            <p className="text-sm text-destructive">
+              The vault can't be recovered without its passphrase. Erasing it deletes the stored keys; you'll need to enter them again.
+            </p>
+          )}
+
+          <DialogFooter className="gap-2 sm:justify-between">
+            {confirmForget ? (
+              <Button type="button" variant="destructive" onClick={onForget}>
+                Erase vault
+              </Button>
+            ) : (
+              <Button type="button" variant="ghost" onClick={() => setConfirmForget(true)}>
+                Forgot passphrase
+              </Button>
+            )}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Not now
+              </Button>
+              <Button type="submit" disabled={!passphrase || isUnlocking}>
+                {isUnlocking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Unlock
+              </Button>
+            </div>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VaultUnlockDialog;
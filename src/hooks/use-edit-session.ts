@@ -0,0 +1,45 @@
+import { useCallback, useRef, useState } from 'react';
+import { emptySession, type EditSession, type SessionTurn } from '@/lib/session';
+
+export type NewSessionTurn = Omit<SessionTurn, 'id' | 'parentId' | 'createdAt'>;
+
+export function useEditSession() {
+  const [session, setSession] = useState<EditSession>(emptySession);
+  // Mirrors `session` synchronously so queued jobs see turns added by the job before them
+  const sessionRef = useRef(session);
+
+  const update = useCallback((next: (current: EditSession) => EditSession) => {
+    sessionRef.current = next(sessionRef.current);
+    setSession(sessionRef.current);
+  }, []);
+
+  const getSession = useCallback(() => sessionRef.current, []);
+
+  // Append turns as children of `parentId`; the first becomes the new head.
+  // Several turns at once become sibling branches (e.g. one per variation).
+  const addTurns = useCallback((parentId: string | null, turns: NewSessionTurn[]): SessionTurn[] => {
+    const createdAt = Date.now();
+    const added: SessionTurn[] = turns.map((turn, index) => ({
+      ...turn,
+      id: crypto.randomUUID(),
+      parentId,
+      createdAt: createdAt + index,
+    }));
+    if (added.length === 0) return added;
+
+    update((current) => ({
+      turns: { ...current.turns, ...Object.fromEntries(added.map((turn) => [turn.id, turn])) },
+      headId: added[0].id,
+    }));
+    return added;
+  }, [update]);
+
+  // Move the head to any earlier turn: the next turn branches from there
+  const checkout = useCallback((turnId: string | null) => {
+    update((current) => ({ ...current, headId: turnId }));
+  }, [update]);
+
+  const reset = useCallback(() => update(emptySession), [update]);
+
+  return { session, getSession, addTurns, checkout, reset };
+}
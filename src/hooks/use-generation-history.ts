@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  addHistoryEntry,
+  addHistoryEntryOnce,
+  clearHistory,
+  deleteHistoryEntry,
+  listHistoryEntries,
+  type HistoryEntry,
+  type NewHistoryEntry,
+} from '@/lib/history';
+import { logError } from '@/lib/redact';
+
+export function useGenerationHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    listHistoryEntries()
+      .then((loaded) => {
+        if (!cancelled) setEntries(loaded);
+      })
+      .catch((error) => logError('Failed to load generation history:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const add = useCallback(async (entry: NewHistoryEntry) => {
+    const record = await addHistoryEntry(entry);
+    setEntries((current) => [record, ...current]);
+    return record;
+  }, []);
+
+  // For results that may already be saved, such as cache hits
+  const addOnce = useCallback(async (entry: NewHistoryEntry) => {
+    const record = await addHistoryEntryOnce(entry);
+    setEntries((current) => (current.some((existing) => existing.id === record.id) ? current : [record, ...current]));
+    return record;
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteHistoryEntry(id);
+    setEntries((current) => current.filter((entry) => entry.id !== id));
+  }, []);
+
+  const clear = useCallback(async () => {
+    await clearHistory();
+    setEntries([]);
+  }, []);
+
+  return { entries, isLoading, add, addOnce, remove, clear };
+}
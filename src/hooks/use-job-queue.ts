@@ -0,0 +1,34 @@
+import { useEffect, useLayoutEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { createJobQueue, type JobExecutor, type JobStatus } from '@/lib/job-queue';
+
+// Binds a job queue to the component's lifetime. The executor may change on
+// every render; jobs always run with the latest one.
+export function useJobQueue<TInput, TResult>(
+  execute: JobExecutor<TInput, TResult>,
+  { concurrency = 1, firstPhase }: { concurrency?: number; firstPhase?: (input: TInput) => JobStatus } = {},
+) {
+  const executeRef = useRef(execute);
+  useLayoutEffect(() => {
+    executeRef.current = execute;
+  });
+
+  const [queue] = useState(() =>
+    createJobQueue<TInput, TResult>({
+      execute: (input, context) => executeRef.current(input, context),
+      concurrency,
+      firstPhase,
+    })
+  );
+
+  const jobs = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+
+  useEffect(() => () => queue.cancelAll(), [queue]);
+
+  return {
+    jobs,
+    enqueue: queue.enqueue,
+    cancel: queue.cancel,
+    remove: queue.remove,
+    clearFinished: queue.clearFinished,
+  };
+}
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import {
+  createVaultKey,
+  deleteVault,
+  hasVault,
+  loadAutoLockMinutes,
+  loadKeyStorageMode,
+  saveAutoLockMinutes,
+  saveKeyStorageMode,
+  unlockVault,
+  writeVault,
+  type KeyStorageMode,
+  type VaultKey,
+} from '@/lib/vault';
+
+// Any of these counts as activity for the auto-lock timer
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel'] as const;
+
+interface UseKeyVaultOptions<T> {
+  // Receives the decrypted secrets
+  onUnlock: (secrets: T) => void;
+  // Called when the vault locks; drop any secrets held in memory
+  onLock: () => void;
+}
+
+// Where API keys are kept: plain localStorage, an encrypted vault, or memory only
+export function useKeyVault<T>({ onUnlock, onLock }: UseKeyVaultOptions<T>) {
+  const [mode, setMode] = useState<KeyStorageMode>(loadKeyStorageMode);
+  const [vaultKey, setVaultKey] = useState<VaultKey | null>(null);
+  const [autoLockMinutes, setAutoLockMinutes] = useState(loadAutoLockMinutes);
+  const callbacks = useRef({ onUnlock, onLock });
+  useLayoutEffect(() => {
+    callbacks.current = { onUnlock, onLock };
+  });
+
+  const isLocked = mode === 'vault' && vaultKey === null;
+
+  useEffect(() => {
+    saveKeyStorageMode(mode);
+  }, [mode]);
+
+  useEffect(() => {
+    saveAutoLockMinutes(autoLockMinutes);
+  }, [autoLockMinutes]);
+
+  const unlock = useCallback(async (passphrase: string) => {
+    const { vaultKey: key, secrets } = await unlockVault<T>(passphrase);
+    setVaultKey(key);
+    callbacks.current.onUnlock(secrets);
+  }, []);
+
+  const lock = useCallback(() => {
+    setVaultKey(null);
+    callbacks.current.onLock();
+  }, []);
+
+  // Re-encrypt the secrets; a no-op unless the vault is unlocked
+  const store = useCallback(async (secrets: T) => {
+    if (vaultKey) await writeVault(vaultKey, secrets);
+  }, [vaultKey]);
+
+  // Move the given secrets into a new vault sealed with `passphrase`
+  const enableVault = useCallback(async (passphrase: string, secrets: T) => {
+    const key = await createVaultKey(passphrase);
+    await writeVault(key, secrets);
+    setVaultKey(key);
+    setMode('vault');
+  }, []);
+
+  // Switch to plain or session-only storage, discarding any vault
+  const disableVault = useCallback((next: Exclude<KeyStorageMode, 'vault'>) => {
+    deleteVault();
+    setVaultKey(null);
+    setMode(next);
+  }, []);
+
+  // Lock after a period without user activity
+  useEffect(() => {
+    if (!vaultKey) return;
+
+    let timer = setTimeout(lock, autoLockMinutes * 60_000);
+    const reset = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lock, autoLockMinutes * 60_000);
+    };
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, reset, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, reset));
+    };
+  }, [vaultKey, autoLockMinutes, lock]);
+
+  return {
+    mode,
+    isLocked,
+    // A locked vault with nothing stored can't be unlocked (e.g. it was cleared elsewhere)
+    canUnlock: isLocked && hasVault(),
+    autoLockMinutes,
+    setAutoLockMinutes,
+    unlock,
+    lock,
+    store,
+    enableVault,
+    disableVault,
+  };
+}
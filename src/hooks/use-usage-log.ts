@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react';
+import { clearUsageRecords, listUsageRecords, type UsageRecord } from '@/lib/usage-log';
+import { logError } from '@/lib/redact';
+
+// Recorded API usage for the usage dialog, loaded once on mount
+export function useUsageLog() {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    listUsageRecords()
+      .then((loaded) => {
+        if (!cancelled) setRecords(loaded);
+      })
+      .catch((error) => logError('Failed to load usage records:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const clear = useCallback(async () => {
+    await clearUsageRecords();
+    setRecords([]);
+  }, []);
+
+  return { records, isLoading, clear };
+}
@@ -0,0 +1,53 @@
+// Word-level diff used to compare the original and enhanced prompts.
+
+export interface DiffToken {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Split into words while keeping the whitespace attached, so joining the
+// tokens of either side reproduces the input exactly
+const tokenize = (text: string): string[] => text.match(/\s*\S+\s*/g) ?? [];
+
+const pushToken = (tokens: DiffToken[], type: DiffToken['type'], text: string) => {
+  const last = tokens[tokens.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    tokens.push({ type, text });
+  }
+};
+
+export const diffWords = (before: string, after: string): DiffToken[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Longest common subsequence table, compared on trimmed words
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i].trim() === b[j].trim()
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const tokens: DiffToken[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) {
+      pushToken(tokens, 'equal', b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushToken(tokens, 'removed', a[i++]);
+    } else {
+      pushToken(tokens, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushToken(tokens, 'removed', a[i++]);
+  while (j < b.length) pushToken(tokens, 'added', b[j++]);
+
+  return tokens;
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  enhancementParams,
+  MAX_OUTPUT_TOKENS_RANGE,
+  resolveStrategy,
+  sanitizeEnhancedPrompt,
+  STARTER_STRATEGIES,
+  TEMPERATURE_RANGE,
+} from './enhancement-strategies';
+
+describe('sanitizeEnhancedPrompt', () => {
+  it('leaves a clean reply alone', () => {
+    expect(sanitizeEnhancedPrompt('A red fox in the snow, golden hour')).toBe('A red fox in the snow, golden hour');
+  });
+
+  it('drops preamble lines', () => {
+    expect(sanitizeEnhancedPrompt('Here is the enhanced prompt:\n\nA red fox in the snow')).toBe('A red fox in the snow');
+    expect(sanitizeEnhancedPrompt("Sure! Here's a more vivid version:\nA red fox")).toBe('A red fox');
+  });
+
+  it('keeps a first line that ends in a colon but is part of the prompt', () => {
+    expect(sanitizeEnhancedPrompt('A poster with the text:\n"Hello"')).toBe('A poster with the text: "Hello"');
+  });
+
+  it('drops trailing meta notes only', () => {
+    expect(sanitizeEnhancedPrompt('A red fox\n\nNote: I added lighting details.')).toBe('A red fox');
+    expect(sanitizeEnhancedPrompt('A red fox\nThis prompt adds golden hour light.')).toBe('A red fox');
+    expect(sanitizeEnhancedPrompt('A red fox\nthis fox is curled up asleep')).toBe('A red fox this fox is curled up asleep');
+    expect(sanitizeEnhancedPrompt('A red fox\nIridescent fur')).toBe('A red fox Iridescent fur');
+  });
+
+  it('strips labels, markdown and code fences', () => {
+    expect(sanitizeEnhancedPrompt('Enhanced prompt: **A red fox**')).toBe('A red fox');
+    expect(sanitizeEnhancedPrompt('```text\nA red fox\n```')).toBe('A red fox');
+  });
+
+  it('strips matching outer quotes only when nothing inside is quoted', () => {
+    expect(sanitizeEnhancedPrompt('"A red fox"')).toBe('A red fox');
+    expect(sanitizeEnhancedPrompt('“A red fox”')).toBe('A red fox');
+    expect(sanitizeEnhancedPrompt('"Hello" on a sign, in "neon"')).toBe('"Hello" on a sign, in "neon"');
+    expect(sanitizeEnhancedPrompt('"A red fox')).toBe('"A red fox');
+  });
+});
+
+describe('enhancementParams', () => {
+  it('appends the output rules and clamps parameters', () => {
+    const params = enhancementParams({ ...STARTER_STRATEGIES[0], temperature: 5, maxOutputTokens: 1 });
+
+    expect(params.systemInstruction.startsWith(STARTER_STRATEGIES[0].instruction)).toBe(true);
+    expect(params.systemInstruction).toContain('Reply with the rewritten prompt only');
+    expect(params.temperature).toBe(TEMPERATURE_RANGE.max);
+    expect(params.maxOutputTokens).toBe(MAX_OUTPUT_TOKENS_RANGE.min);
+  });
+});
+
+describe('resolveStrategy', () => {
+  it('falls back to the first strategy, then the built-in default', () => {
+    const custom = { ...STARTER_STRATEGIES[1], id: 'custom' };
+    expect(resolveStrategy([custom], 'custom')).toBe(custom);
+    expect(resolveStrategy([custom], 'deleted')).toBe(custom);
+    expect(resolveStrategy([], 'deleted')).toBe(STARTER_STRATEGIES[0]);
+  });
+});
@@ -0,0 +1,135 @@
+// How auto-enhance rewrites a prompt: each strategy is a system instruction
+// for the provider's text model plus sampling parameters. Strategies are
+// user-editable and kept in localStorage; one is picked per generation.
+
+export interface EnhancementStrategy {
+  id: string;
+  name: string;
+  // Sent as the system instruction; the user's prompt is the message
+  instruction: string;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+const STORAGE_KEY = 'enhancement-strategies';
+const SELECTED_KEY = 'enhancement-strategy';
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2, step: 0.1 };
+export const MAX_OUTPUT_TOKENS_RANGE = { min: 16, max: 2048 };
+
+// Appended to every instruction so the reply can be used as the prompt as-is
+const OUTPUT_RULES = 'Reply with the rewritten prompt only: no preamble, explanation, quotes or formatting.';
+
+export const STARTER_STRATEGIES: EnhancementStrategy[] = [
+  {
+    id: 'starter-general',
+    name: 'General',
+    instruction: 'You rewrite image generation prompts to be more descriptive and artistic while keeping the original intent. Add detail about subject, composition, lighting and style.',
+    temperature: 0.7,
+    maxOutputTokens: 200,
+  },
+  {
+    id: 'starter-photographic',
+    name: 'Photographic',
+    instruction: 'You rewrite image generation prompts as descriptions of a real photograph. Keep the subject and intent, and add camera, lens, lighting, time of day and depth of field details.',
+    temperature: 0.6,
+    maxOutputTokens: 200,
+  },
+  {
+    id: 'starter-illustration',
+    name: 'Illustration',
+    instruction: 'You rewrite image generation prompts as descriptions of an illustration. Keep the subject and intent, and add medium, line work, palette and artistic style details.',
+    temperature: 0.8,
+    maxOutputTokens: 200,
+  },
+  {
+    id: 'starter-minimal-edit',
+    name: 'Minimal edit',
+    instruction: 'You lightly edit image generation prompts: fix spelling and grammar and make ambiguous wording precise. Do not add new subjects, styles or details.',
+    temperature: 0.2,
+    maxOutputTokens: 150,
+  },
+  {
+    id: 'starter-translate',
+    name: 'Translate to English',
+    instruction: 'You translate image generation prompts into natural English, keeping their meaning and level of detail. If the prompt is already English, return it unchanged.',
+    temperature: 0,
+    maxOutputTokens: 300,
+  },
+];
+
+export const DEFAULT_STRATEGY_ID = STARTER_STRATEGIES[0].id;
+
+export const loadEnhancementStrategies = (): EnhancementStrategy[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : STARTER_STRATEGIES;
+  } catch {
+    return STARTER_STRATEGIES;
+  }
+};
+
+export const saveEnhancementStrategies = (strategies: EnhancementStrategy[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(strategies));
+};
+
+export const loadSelectedStrategyId = (): string => localStorage.getItem(SELECTED_KEY) || DEFAULT_STRATEGY_ID;
+
+export const saveSelectedStrategyId = (id: string) => {
+  localStorage.setItem(SELECTED_KEY, id);
+};
+
+export const createEnhancementStrategy = (): EnhancementStrategy => ({
+  ...STARTER_STRATEGIES[0],
+  id: crypto.randomUUID(),
+  name: 'New strategy',
+});
+
+// The selected strategy, falling back to the first one (or the built-in
+// default) when it was deleted
+export const resolveStrategy = (strategies: EnhancementStrategy[], id: string): EnhancementStrategy =>
+  strategies.find((strategy) => strategy.id === id) ?? strategies[0] ?? STARTER_STRATEGIES[0];
+
+// What is sent to the provider; parameters are clamped since they are typed in freely
+export const enhancementParams = (strategy: EnhancementStrategy) => ({
+  systemInstruction: `${strategy.instruction.trim()}\n\n${OUTPUT_RULES}`,
+  temperature: Math.min(TEMPERATURE_RANGE.max, Math.max(TEMPERATURE_RANGE.min, strategy.temperature)),
+  maxOutputTokens: Math.min(MAX_OUTPUT_TOKENS_RANGE.max, Math.max(MAX_OUTPUT_TOKENS_RANGE.min, strategy.maxOutputTokens)),
+});
+
+const QUOTE_PAIRS: Array<[string, string]> = [['"', '"'], ["'", "'"], ['“', '”'], ['‘', '’'], ['`', '`'], ['«', '»']];
+
+// Models often wrap the prompt in a preamble ("Here's an enhanced prompt:"),
+// a label, markdown or quotes despite being asked not to; strip those
+export const sanitizeEnhancedPrompt = (text: string): string => {
+  let lines = text.replace(/```[a-z]*\n?/gi, '').split('\n').map((line) => line.trim()).filter(Boolean);
+
+  // A lead-in line such as "Sure! Here is the enhanced prompt:"; other lines
+  // ending in a colon ('A poster with the text:') are part of the prompt
+  if (lines.length > 1 && /^((sure|okay|ok|certainly|of course)\b[!,.]?\s*)?here(\s+is|'s|\s+are)\b.*:$/i.test(lines[0])) {
+    lines = lines.slice(1);
+  }
+  // A trailing meta note ("Note: ...", "This prompt adds..."); other last lines
+  // may be part of the prompt itself
+  if (lines.length > 1 && /^(note\s*:|this (enhanced |rewritten |revised )?(prompt|version)\b)/i.test(lines[lines.length - 1])) {
+    lines = lines.slice(0, -1);
+  }
+
+  let prompt = lines.join(' ')
+    .replace(/^(enhanced|rewritten|revised|improved|translated)?\s*prompt\s*:\s*/i, '')
+    .replace(/\*\*|__/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // Only a matching pair around the whole reply, so quotes inside the prompt
+  // ('"Hello" written on a sign, in "neon"') are kept
+  for (const [open, close] of QUOTE_PAIRS) {
+    const inner = prompt.slice(open.length, -close.length);
+    if (prompt.length > 1 && prompt.startsWith(open) && prompt.endsWith(close) && !inner.includes(open) && !inner.includes(close)) {
+      prompt = inner.trim();
+      break;
+    }
+  }
+
+  return prompt;
+};
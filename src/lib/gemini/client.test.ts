@@ -0,0 +1,176 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createGeminiClient } from './client';
+import { GeminiError } from './errors';
+import type { GenerateContentRequest } from './types';
+
+// A local stand-in for the Gemini API: each test sets the handler, and every
+// request is recorded with its parsed body
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body: unknown;
+}
+
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[] = [];
+let handler: (request: IncomingMessage, response: ServerResponse) => void = (_, response) => response.end();
+
+const json = (response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+};
+
+const sse = (response: ServerResponse, events: string[]) => {
+  response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  response.end(events.map((data) => `data: ${data}\r\n\r\n`).join(''));
+};
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let raw = '';
+    request.on('data', (chunk) => {
+      raw += chunk;
+    });
+    request.on('end', () => {
+      requests.push({ method: request.method, url: request.url, headers: request.headers, body: raw ? JSON.parse(raw) : undefined });
+      handler(request, response);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1beta`;
+  // http.ts names the unreachable origin relative to the page
+  vi.stubGlobal('window', { location: { href: 'http://localhost/' } });
+});
+
+afterEach(() => {
+  requests = [];
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const REQUEST: GenerateContentRequest = {
+  contents: [{ role: 'user', parts: [{ text: 'a red fox' }] }],
+  generationConfig: { responseModalities: ['TEXT', 'IMAGE'] },
+};
+
+describe('generateContent', () => {
+  it('posts the request to the model endpoint with the key in a header', async () => {
+    handler = (_, response) => json(response, 200, {
+      candidates: [{ content: { role: 'model', parts: [{ inlineData: { mimeType: 'image/png', data: 'iVBOR' } }] }, finishReason: 'STOP' }],
+    });
+
+    const client = createGeminiClient({ apiKey: 'test-key', baseUrl });
+    const response = await client.generateContent('gemini-2.5-flash-image', REQUEST);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].url).toBe('/v1beta/models/gemini-2.5-flash-image:generateContent');
+    expect(requests[0].headers['x-goog-api-key']).toBe('test-key');
+    expect(requests[0].body).toEqual(REQUEST);
+    expect(response.candidates?.[0].finishReason).toBe('STOP');
+  });
+
+  it('sends a bearer token instead of the key when going through the proxy', async () => {
+    handler = (_, response) => json(response, 200, {});
+
+    await createGeminiClient({ accessToken: 'proxy-token', baseUrl }).generateContent('model', REQUEST);
+
+    expect(requests[0].headers.authorization).toBe('Bearer proxy-token');
+    expect(requests[0].headers['x-goog-api-key']).toBeUndefined();
+  });
+
+  it('turns API errors into a GeminiError with the status, code and retry delay', async () => {
+    handler = (_, response) => json(response, 429, {
+      error: {
+        code: 429,
+        status: 'RESOURCE_EXHAUSTED',
+        message: 'Quota exceeded',
+        details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '12s' }],
+      },
+    });
+
+    const error = await createGeminiClient({ apiKey: 'test-key', baseUrl }).generateContent('model', REQUEST).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(GeminiError);
+    expect(error).toMatchObject({ message: 'Quota exceeded', status: 429, code: 'RESOURCE_EXHAUSTED', retryAfterMs: 12_000, network: false });
+  });
+
+  it('prefers Retry-After over RetryInfo and tolerates a non-JSON body', async () => {
+    handler = (_, response) => {
+      response.writeHead(503, { 'Retry-After': '3' });
+      response.end('upstream unavailable');
+    };
+
+    const error = await createGeminiClient({ apiKey: 'test-key', baseUrl }).generateContent('model', REQUEST).catch((caught) => caught);
+
+    expect(error).toMatchObject({ message: 'HTTP error! status: 503', status: 503, retryAfterMs: 3000 });
+  });
+
+  it('marks an unreachable server as a network error', async () => {
+    const unreachable = createServer();
+    await new Promise<void>((resolve) => unreachable.listen(0, '127.0.0.1', resolve));
+    const { port } = unreachable.address() as AddressInfo;
+    await new Promise((resolve) => unreachable.close(resolve));
+
+    const client = createGeminiClient({ apiKey: 'test-key', baseUrl: `http://127.0.0.1:${port}/v1beta` });
+    const error = await client.generateContent('model', REQUEST).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(GeminiError);
+    expect(error).toMatchObject({ status: 0, network: true });
+  });
+
+  it('uses an injected fetch', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ modelVersion: 'injected' }), { status: 200 }));
+
+    const response = await createGeminiClient({ apiKey: 'test-key', baseUrl: 'http://mock.invalid/v1beta', fetch })
+      .generateContent('model', REQUEST);
+
+    expect(fetch).toHaveBeenCalledWith('http://mock.invalid/v1beta/models/model:generateContent', expect.objectContaining({ method: 'POST' }));
+    expect(response.modelVersion).toBe('injected');
+  });
+});
+
+describe('streamGenerateContent', () => {
+  it('merges server-sent chunks and reports each one', async () => {
+    handler = (_, response) => sse(response, [
+      JSON.stringify({ candidates: [{ content: { role: 'model', parts: [{ text: 'Here is ' }] } }] }),
+      JSON.stringify({ candidates: [{ content: { role: 'model', parts: [{ text: 'your fox' }] } }] }),
+      JSON.stringify({
+        candidates: [{ content: { role: 'model', parts: [{ inlineData: { mimeType: 'image/png', data: 'iVBOR' } }] }, finishReason: 'STOP' }],
+        usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 1290, totalTokenCount: 1294 },
+      }),
+    ]);
+
+    const onChunk = vi.fn();
+    const response = await createGeminiClient({ apiKey: 'test-key', baseUrl })
+      .streamGenerateContent('model', REQUEST, { onChunk });
+
+    expect(requests[0].url).toBe('/v1beta/models/model:streamGenerateContent?alt=sse');
+    expect(onChunk).toHaveBeenCalledTimes(3);
+    expect(response.candidates?.[0].content?.parts).toEqual([
+      { text: 'Here is your fox' },
+      { inlineData: { mimeType: 'image/png', data: 'iVBOR' } },
+    ]);
+    expect(response.candidates?.[0].finishReason).toBe('STOP');
+    expect(response.usageMetadata?.totalTokenCount).toBe(1294);
+  });
+
+  it('rejects a malformed chunk as a bad gateway response', async () => {
+    handler = (_, response) => sse(response, ['{"candidates": [']);
+
+    const error = await createGeminiClient({ apiKey: 'test-key', baseUrl })
+      .streamGenerateContent('model', REQUEST)
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(GeminiError);
+    expect(error).toMatchObject({ status: 502, network: false });
+  });
+});
@@ -0,0 +1,100 @@
+import { sendRequest } from '../http';
+import { GeminiError } from './errors';
+import { mergeResponseChunk, readServerSentEvents } from './stream';
+import type { GenerateContentRequest, GenerateContentResponse } from './types';
+
+export const DEFAULT_GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+export interface GeminiClientOptions {
+  apiKey?: string;
+  // Bearer token for the team proxy, which adds the API key itself
+  accessToken?: string;
+  // Override to point the app (or tests) at a local mock server
+  baseUrl?: string;
+  // Override to inject a custom fetch implementation
+  fetch?: typeof fetch;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface StreamOptions extends RequestOptions {
+  // Called with each partial response and everything merged so far
+  onChunk?: (chunk: GenerateContentResponse, merged: GenerateContentResponse) => void;
+}
+
+export interface GeminiClient {
+  generateContent: (
+    model: string,
+    request: GenerateContentRequest,
+    options?: RequestOptions,
+  ) => Promise<GenerateContentResponse>;
+  // Same request over server-sent events; resolves with the merged response
+  streamGenerateContent: (
+    model: string,
+    request: GenerateContentRequest,
+    options?: StreamOptions,
+  ) => Promise<GenerateContentResponse>;
+}
+
+const resolveBaseUrl = (baseUrl?: string) =>
+  (baseUrl || import.meta.env.VITE_GEMINI_BASE_URL || DEFAULT_GEMINI_BASE_URL).replace(/\/+$/, '');
+
+const authHeaders = (apiKey?: string, accessToken?: string): Record<string, string> => {
+  if (accessToken) return { Authorization: `Bearer ${accessToken}` };
+  return apiKey ? { 'x-goog-api-key': apiKey } : {};
+};
+
+export const createGeminiClient = ({ apiKey, accessToken, baseUrl, fetch: fetchImpl }: GeminiClientOptions): GeminiClient => {
+  const root = resolveBaseUrl(baseUrl);
+
+  const post = (model: string, method: string, request: GenerateContentRequest, signal?: AbortSignal) => sendRequest(
+    `${root}/models/${encodeURIComponent(model)}:${method}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders(apiKey, accessToken),
+      },
+      body: JSON.stringify(request),
+      signal,
+    },
+    {
+      fetch: fetchImpl,
+      toNetworkError: (_, cause) => new GeminiError('Network error while contacting the Gemini API', { cause, network: true }),
+      toHttpError: GeminiError.fromResponse,
+    }
+  );
+
+  const generateContent: GeminiClient['generateContent'] = async (model, request, options = {}) => {
+    const response = await post(model, 'generateContent', request, options.signal);
+    return (await response.json()) as GenerateContentResponse;
+  };
+
+  const streamGenerateContent: GeminiClient['streamGenerateContent'] = async (model, request, options = {}) => {
+    const response = await post(model, 'streamGenerateContent?alt=sse', request, options.signal);
+    if (!response.body) throw new GeminiError('The Gemini API returned an empty stream');
+
+    let merged: GenerateContentResponse = {};
+    try {
+      for await (const data of readServerSentEvents(response.body)) {
+        let chunk: GenerateContentResponse;
+        try {
+          chunk = JSON.parse(data);
+        } catch (cause) {
+          throw new GeminiError('Malformed chunk in the Gemini API stream', { status: 502, cause });
+        }
+        merged = mergeResponseChunk(merged, chunk);
+        options.onChunk?.(chunk, merged);
+      }
+    } catch (error) {
+      if (error instanceof GeminiError || (error instanceof DOMException && error.name === 'AbortError')) throw error;
+      // A dropped connection mid-stream is a network failure, so it is retried
+      throw new GeminiError('Connection to the Gemini API was lost while streaming', { cause: error, network: true });
+    }
+    return merged;
+  };
+
+  return { generateContent, streamGenerateContent };
+};
@@ -0,0 +1,64 @@
+import { redact } from '../redact';
+import { parseRetryAfter } from '../retry';
+import type { ApiErrorBody } from './types';
+
+// google.rpc.RetryInfo detail attached to RESOURCE_EXHAUSTED errors
+interface RetryInfoDetail {
+  '@type'?: string;
+  retryDelay?: string;
+}
+
+// retryDelay is a protobuf Duration such as "37s" or "1.5s"
+const retryDelayFromDetails = (details: unknown[] = []): number | undefined => {
+  const info = details.find((detail): detail is RetryInfoDetail =>
+    typeof detail === 'object' && detail !== null && String((detail as RetryInfoDetail)['@type']).endsWith('google.rpc.RetryInfo'));
+  const seconds = parseFloat(info?.retryDelay ?? '');
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+};
+
+// Single error type thrown by the Gemini client. `status` is the HTTP status
+// (0 when there was no HTTP response) and `code` the API's status string, when known.
+export class GeminiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+  readonly details?: unknown[];
+  // Delay the server asked for before retrying (Retry-After or RetryInfo)
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+  // The API could not be reached or the connection dropped; worth retrying
+  readonly network: boolean;
+
+  constructor(
+    message: string,
+    options: { status?: number; code?: string; details?: unknown[]; retryAfterMs?: number; cause?: unknown; network?: boolean } = {},
+  ) {
+    // API messages can echo request details, including the key
+    super(redact(message));
+    this.name = 'GeminiError';
+    this.status = options.status ?? 0;
+    this.code = options.code;
+    this.details = options.details;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+    this.network = options.network ?? false;
+  }
+
+  // Build an error from a non-2xx response, tolerating non-JSON bodies
+  static async fromResponse(response: Response): Promise<GeminiError> {
+    let body: ApiErrorBody = {};
+    try {
+      body = await response.json();
+    } catch {
+      // Body was empty or not JSON; fall back to the HTTP status
+    }
+
+    return new GeminiError(body.error?.message || `HTTP error! status: ${response.status}`, {
+      status: response.status,
+      code: body.error?.status,
+      details: body.error?.details,
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) ?? retryDelayFromDetails(body.error?.details),
+    });
+  }
+}
+
+export const isGeminiError = (error: unknown): error is GeminiError => error instanceof GeminiError;
@@ -0,0 +1,27 @@
+import type { Candidate, GenerateContentResponse, InlineData, InlineDataPart, Part, TextPart } from './types';
+
+export const textPart = (text: string): TextPart => ({ text });
+
+export const inlineDataPart = (mimeType: string, data: string): InlineDataPart => ({
+  inlineData: { mimeType, data },
+});
+
+export const isTextPart = (part: Part): part is TextPart => typeof (part as TextPart).text === 'string';
+
+export const isInlineDataPart = (part: Part): part is InlineDataPart => Boolean((part as InlineDataPart).inlineData);
+
+const candidateParts = (candidate?: Candidate): Part[] => candidate?.content?.parts ?? [];
+
+// Concatenated text of a candidate (the first one by default)
+export const getText = (response: GenerateContentResponse, candidateIndex = 0): string =>
+  candidateParts(response.candidates?.[candidateIndex])
+    .filter(isTextPart)
+    .map((part) => part.text)
+    .join('');
+
+// All inline images of a candidate (the first one by default)
+export const getImages = (response: GenerateContentResponse, candidateIndex = 0): InlineData[] =>
+  candidateParts(response.candidates?.[candidateIndex])
+    .filter(isInlineDataPart)
+    .map((part) => part.inlineData)
+    .filter((inlineData) => Boolean(inlineData.data));
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { mergeResponseChunk, readServerSentEvents } from './stream';
+
+const streamOf = (...pieces: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      pieces.forEach((piece) => controller.enqueue(encoder.encode(piece)));
+      controller.close();
+    },
+  });
+};
+
+const collect = async (body: ReadableStream<Uint8Array>) => {
+  const events: string[] = [];
+  for await (const data of readServerSentEvents(body)) events.push(data);
+  return events;
+};
+
+describe('readServerSentEvents', () => {
+  it('yields the data of each event', async () => {
+    expect(await collect(streamOf('data: {"a":1}\n\ndata: {"b":2}\n\n'))).toEqual(['{"a":1}', '{"b":2}']);
+  });
+
+  it('reassembles events split across reads and CRLF line endings', async () => {
+    expect(await collect(streamOf('data: {"te', 'xt":"hi"}\r', '\n\r\ndata: x\r\n\r\n'))).toEqual(['{"text":"hi"}', 'x']);
+  });
+
+  it('joins multi-line data, ignores other fields and flushes a final event without a blank line', async () => {
+    expect(await collect(streamOf(': comment\nevent: message\ndata: one\ndata: two\n\ndata: last'))).toEqual(['one\ntwo', 'last']);
+  });
+});
+
+describe('mergeResponseChunk', () => {
+  it('joins consecutive text parts and keeps images whole', () => {
+    let merged = mergeResponseChunk({}, { candidates: [{ content: { role: 'model', parts: [{ text: 'A ' }] } }] });
+    merged = mergeResponseChunk(merged, { candidates: [{ content: { parts: [{ text: 'fox' }] } }] });
+    merged = mergeResponseChunk(merged, {
+      candidates: [{ content: { parts: [{ inlineData: { mimeType: 'image/png', data: 'abc' } }, { text: 'done' }] } }],
+    });
+
+    expect(merged.candidates?.[0].content).toEqual({
+      role: 'model',
+      parts: [{ text: 'A fox' }, { inlineData: { mimeType: 'image/png', data: 'abc' } }, { text: 'done' }],
+    });
+  });
+
+  it('keeps the latest finish reason, ratings and usage', () => {
+    let merged = mergeResponseChunk({}, {
+      candidates: [{ content: { parts: [{ text: 'x' }] } }],
+      usageMetadata: { promptTokenCount: 3 },
+    });
+    merged = mergeResponseChunk(merged, {
+      candidates: [{
+        finishReason: 'SAFETY',
+        safetyRatings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH' }],
+      }],
+      usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 5, totalTokenCount: 8 },
+    });
+
+    expect(merged.candidates?.[0]).toMatchObject({
+      finishReason: 'SAFETY',
+      safetyRatings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH' }],
+      content: { parts: [{ text: 'x' }] },
+    });
+    expect(merged.usageMetadata?.totalTokenCount).toBe(8);
+  });
+
+  it('merges candidates by their index', () => {
+    let merged = mergeResponseChunk({}, { candidates: [{ index: 1, content: { parts: [{ text: 'b' }] } }] });
+    merged = mergeResponseChunk(merged, { candidates: [{ index: 0, content: { parts: [{ text: 'a' }] } }] });
+
+    expect(merged.candidates?.map((candidate) => candidate.content?.parts)).toEqual([[{ text: 'a' }], [{ text: 'b' }]]);
+  });
+});
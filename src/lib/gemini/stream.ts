@@ -0,0 +1,76 @@
+import { isTextPart } from './parts';
+import type { Candidate, GenerateContentResponse, Part } from './types';
+
+// `streamGenerateContent?alt=sse` sends one partial GenerateContentResponse per
+// server-sent event. Text arrives in pieces; images arrive whole.
+
+// Data payloads of the events in an SSE body
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop() ?? '';
+      for (const line of lines) {
+        if (line === '') {
+          // A blank line ends the event
+          if (data.length > 0) yield data.join('\n');
+          data = [];
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+
+      if (done) {
+        if (data.length > 0) yield data.join('\n');
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Append parts, joining consecutive text so streamed words read as one part
+const appendParts = (parts: Part[], next: Part[]): Part[] => next.reduce((merged, part) => {
+  const last = merged[merged.length - 1];
+  if (last && isTextPart(last) && isTextPart(part)) {
+    return [...merged.slice(0, -1), { text: last.text + part.text }];
+  }
+  return [...merged, part];
+}, parts);
+
+const mergeCandidate = (current: Candidate | undefined, next: Candidate): Candidate => ({
+  ...current,
+  ...next,
+  content: {
+    role: next.content?.role ?? current?.content?.role,
+    parts: appendParts(current?.content?.parts ?? [], next.content?.parts ?? []),
+  },
+});
+
+// Fold a streamed chunk into the response so far. Parts accumulate; the
+// latest finish reason, ratings, feedback and usage win.
+export const mergeResponseChunk = (
+  response: GenerateContentResponse,
+  chunk: GenerateContentResponse,
+): GenerateContentResponse => {
+  const candidates = [...(response.candidates ?? [])];
+  (chunk.candidates ?? []).forEach((candidate, position) => {
+    const index = candidate.index ?? position;
+    candidates[index] = mergeCandidate(candidates[index], candidate);
+  });
+
+  return {
+    ...response,
+    ...chunk,
+    candidates,
+  };
+};
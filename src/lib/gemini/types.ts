@@ -0,0 +1,135 @@
+// Request and response models for the Gemini `generateContent` REST API.
+// Only the fields this app reads or writes are modelled.
+
+export type Role = 'user' | 'model';
+
+export type ResponseModality = 'TEXT' | 'IMAGE';
+
+export type HarmCategory =
+  | 'HARM_CATEGORY_HARASSMENT'
+  | 'HARM_CATEGORY_HATE_SPEECH'
+  | 'HARM_CATEGORY_SEXUALLY_EXPLICIT'
+  | 'HARM_CATEGORY_DANGEROUS_CONTENT'
+  | 'HARM_CATEGORY_CIVIC_INTEGRITY';
+
+export type HarmBlockThreshold =
+  | 'HARM_BLOCK_THRESHOLD_UNSPECIFIED'
+  | 'BLOCK_LOW_AND_ABOVE'
+  | 'BLOCK_MEDIUM_AND_ABOVE'
+  | 'BLOCK_ONLY_HIGH'
+  | 'BLOCK_NONE'
+  | 'OFF';
+
+export type HarmProbability =
+  | 'HARM_PROBABILITY_UNSPECIFIED'
+  | 'NEGLIGIBLE'
+  | 'LOW'
+  | 'MEDIUM'
+  | 'HIGH';
+
+export type FinishReason =
+  | 'FINISH_REASON_UNSPECIFIED'
+  | 'STOP'
+  | 'MAX_TOKENS'
+  | 'SAFETY'
+  | 'RECITATION'
+  | 'LANGUAGE'
+  | 'OTHER'
+  | 'BLOCKLIST'
+  | 'PROHIBITED_CONTENT'
+  | 'SPII'
+  | 'MALFORMED_FUNCTION_CALL'
+  | 'IMAGE_SAFETY';
+
+export type BlockReason =
+  | 'BLOCK_REASON_UNSPECIFIED'
+  | 'SAFETY'
+  | 'OTHER'
+  | 'BLOCKLIST'
+  | 'PROHIBITED_CONTENT'
+  | 'IMAGE_SAFETY';
+
+export interface InlineData {
+  mimeType: string;
+  data: string;
+}
+
+export interface TextPart {
+  text: string;
+}
+
+export interface InlineDataPart {
+  inlineData: InlineData;
+}
+
+export type Part = TextPart | InlineDataPart;
+
+export interface Content {
+  role?: Role;
+  parts: Part[];
+}
+
+export interface GenerationConfig {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  candidateCount?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  responseModalities?: ResponseModality[];
+  // Image output options; only honoured by models that support them
+  imageConfig?: { aspectRatio?: string };
+}
+
+export interface SafetySetting {
+  category: HarmCategory;
+  threshold: HarmBlockThreshold;
+}
+
+export interface GenerateContentRequest {
+  contents: Content[];
+  generationConfig?: GenerationConfig;
+  safetySettings?: SafetySetting[];
+  systemInstruction?: Content;
+}
+
+export interface SafetyRating {
+  category: HarmCategory;
+  probability: HarmProbability;
+  blocked?: boolean;
+}
+
+export interface Candidate {
+  content?: Content;
+  finishReason?: FinishReason;
+  safetyRatings?: SafetyRating[];
+  index?: number;
+}
+
+export interface PromptFeedback {
+  blockReason?: BlockReason;
+  safetyRatings?: SafetyRating[];
+}
+
+export interface UsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+export interface GenerateContentResponse {
+  candidates?: Candidate[];
+  promptFeedback?: PromptFeedback;
+  usageMetadata?: UsageMetadata;
+  modelVersion?: string;
+}
+
+// Error envelope returned by the API on non-2xx responses
+export interface ApiErrorBody {
+  error?: {
+    code?: number;
+    message?: string;
+    status?: string;
+    details?: unknown[];
+  };
+}
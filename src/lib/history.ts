@@ -0,0 +1,78 @@
+import { requestToPromise, STORES, withStore } from './idb';
+import type { ProviderId } from './providers';
+import { createReference, type ReferenceImage } from './references';
+import type { Base64Image, GenerationMode } from './types';
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  prompt: string;
+  // Present when Auto Enhance rewrote the prompt before generating
+  enhancedPrompt?: string;
+  mode: GenerationMode;
+  // Missing on entries written before other providers were supported (Gemini)
+  provider?: ProviderId;
+  // Credential profile used, for entries written since profiles were added
+  profileId?: string;
+  model: string;
+  referenceImages?: ReferenceImage[];
+  // Single source image written by older versions; read via historyReferences()
+  sourceImage?: Base64Image;
+  image: Base64Image;
+  // Text parts the model returned with the image
+  responseText?: string;
+  // Response cache key the image is stored under, when the cache was on
+  cacheKey?: string;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'createdAt'>;
+
+export const addHistoryEntry = (entry: NewHistoryEntry): Promise<HistoryEntry> => {
+  const record: HistoryEntry = { ...entry, id: crypto.randomUUID(), createdAt: Date.now() };
+  return withStore(STORES.history, 'readwrite', async (store) => {
+    await requestToPromise(store.add(record));
+    return record;
+  });
+};
+
+// Like addHistoryEntry, but returns the existing entry saved under the same
+// cache key, e.g. for a cached response that is still in the history
+export const addHistoryEntryOnce = (entry: NewHistoryEntry): Promise<HistoryEntry> =>
+  withStore(STORES.history, 'readwrite', async (store) => {
+    if (entry.cacheKey) {
+      const existing = await requestToPromise(store.index('cacheKey').get(entry.cacheKey) as IDBRequest<HistoryEntry | undefined>);
+      if (existing) return existing;
+    }
+
+    const record: HistoryEntry = { ...entry, id: crypto.randomUUID(), createdAt: Date.now() };
+    await requestToPromise(store.add(record));
+    return record;
+  });
+
+// Newest first
+export const listHistoryEntries = (): Promise<HistoryEntry[]> =>
+  withStore(STORES.history, 'readonly', async (store) => {
+    const entries = await requestToPromise(store.index('createdAt').getAll() as IDBRequest<HistoryEntry[]>);
+    return entries.reverse();
+  });
+
+export const deleteHistoryEntry = (id: string): Promise<void> =>
+  withStore(STORES.history, 'readwrite', async (store) => {
+    await requestToPromise(store.delete(id));
+  });
+
+export const clearHistory = (): Promise<void> =>
+  withStore(STORES.history, 'readwrite', async (store) => {
+    await requestToPromise(store.clear());
+  });
+
+export const historyReferences = (entry: HistoryEntry): ReferenceImage[] =>
+  entry.referenceImages ?? (entry.sourceImage ? [createReference(entry.sourceImage)] : []);
+
+// Case-insensitive match against the original and enhanced prompts
+export const matchesHistorySearch = (entry: HistoryEntry, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [entry.prompt, entry.enhancedPrompt, entry.model]
+    .some((value) => value?.toLowerCase().includes(needle));
+};
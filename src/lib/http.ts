@@ -0,0 +1,36 @@
+import { redact } from './redact';
+
+// The single place API requests are sent from. Credentials belong in headers:
+// a key in the query string ends up in browser history, dev tools and proxy
+// logs, so such URLs are rejected outright.
+
+export interface SendRequestOptions {
+  // Override to inject a custom fetch implementation
+  fetch?: typeof fetch;
+  // Map failures to the caller's error type; messages are redacted first
+  toNetworkError: (message: string, cause: unknown) => Error;
+  toHttpError: (response: Response) => Promise<Error>;
+}
+
+const KEY_QUERY_PARAM = /[?&](?:key|api_key|apikey)=/i;
+
+export const sendRequest = async (
+  url: string,
+  init: RequestInit,
+  { fetch: fetchImpl, toNetworkError, toHttpError }: SendRequestOptions,
+): Promise<Response> => {
+  if (KEY_QUERY_PARAM.test(url)) {
+    throw new Error('Refusing to send an API key in the URL; pass it in a header instead');
+  }
+
+  let response: Response;
+  try {
+    response = await (fetchImpl ?? fetch)(url, init);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    throw toNetworkError(redact(`Network error while contacting ${new URL(url, window.location.href).origin}`), error);
+  }
+
+  if (!response.ok) throw await toHttpError(response);
+  return response;
+};
@@ -0,0 +1,88 @@
+// Minimal promise wrapper around the app's IndexedDB database.
+
+const DB_NAME = 'swap-creations';
+
+export const STORES = {
+  history: 'history',
+  usage: 'usage',
+  cache: 'cache',
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+// One entry per schema version; never edit a shipped migration, append a new one.
+// `transaction` is the upgrade transaction, for changing existing stores.
+const migrations: Array<(db: IDBDatabase, transaction: IDBTransaction) => void> = [
+  (db) => {
+    const history = db.createObjectStore(STORES.history, { keyPath: 'id' });
+    history.createIndex('createdAt', 'createdAt');
+  },
+  (db) => {
+    const usage = db.createObjectStore(STORES.usage, { keyPath: 'id' });
+    usage.createIndex('createdAt', 'createdAt');
+  },
+  (db) => {
+    const cache = db.createObjectStore(STORES.cache, { keyPath: 'key' });
+    cache.createIndex('lastUsedAt', 'lastUsedAt');
+  },
+  (db, transaction) => {
+    transaction.objectStore(STORES.history).createIndex('cacheKey', 'cacheKey');
+  },
+  (db, transaction) => {
+    transaction.objectStore(STORES.cache).createIndex('lastUsedAtSize', ['lastUsedAt', 'size']);
+  },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, migrations.length);
+    request.onupgradeneeded = (event) => {
+      for (let version = event.oldVersion; version < migrations.length; version++) {
+        migrations[version](request.result, request.transaction!);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run `fn` inside a transaction and resolve once the transaction has committed
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T,
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  const result = await fn(transaction.objectStore(storeName));
+  await done;
+  return result;
+};
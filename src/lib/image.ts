@@ -0,0 +1,71 @@
+import type { Base64Image } from './types';
+
+// Upload formats accepted by the file picker and drop zone
+export const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Largest image we send inline with a request
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+};
+
+export const extensionForMimeType = (mimeType: string): string =>
+  EXTENSIONS[mimeType] ?? (mimeType.split('/')[1]?.replace(/[^a-z0-9]/gi, '') || 'bin');
+
+// Replace (or add) a file name's extension so it matches the MIME type
+export const withExtension = (name: string, mimeType: string): string =>
+  `${name.replace(/\.[^./]+$/, '')}.${extensionForMimeType(mimeType)}`;
+
+export const toDataUrl = (image: Base64Image): string => `data:${image.mimeType};base64,${image.data}`;
+
+export const parseDataUrl = (dataUrl: string, fallbackMimeType = 'application/octet-stream'): Base64Image => {
+  const [header, data = ''] = dataUrl.split(',', 2);
+  const mimeType = /^data:([^;,]+)/.exec(header)?.[1] || fallbackMimeType;
+  return { data, mimeType };
+};
+
+// Read a file or blob as base64, keeping the browser-detected MIME type
+export const blobToBase64Image = (blob: Blob, name?: string): Promise<Base64Image> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => {
+      const image = parseDataUrl(reader.result as string, blob.type);
+      resolve({ ...image, mimeType: blob.type || image.mimeType, name });
+    };
+    reader.onerror = () => reject(reader.error);
+  });
+
+export const base64ToBlob = (image: Base64Image): Blob => {
+  const binary = atob(image.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: image.mimeType });
+};
+
+export const fileToBase64Image = (file: File): Promise<Base64Image> => blobToBase64Image(file, file.name);
+
+// Decoded size in bytes of a base64 payload
+export const base64ByteLength = (data: string): number =>
+  Math.floor((data.length * 3) / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const downloadImage = (image: Base64Image, baseName: string) => {
+  const link = document.createElement('a');
+  link.href = toDataUrl(image);
+  link.download = withExtension(baseName, image.mimeType);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
@@ -0,0 +1,160 @@
+// A small job queue with per-job lifecycle and cancellation. Jobs run in FIFO
+// order, at most `concurrency` at a time; each gets its own AbortController.
+
+export type JobStatus = 'queued' | 'enhancing' | 'generating' | 'done' | 'failed' | 'cancelled';
+
+export const FINISHED_STATUSES: JobStatus[] = ['done', 'failed', 'cancelled'];
+
+export const isJobFinished = (status: JobStatus) => FINISHED_STATUSES.includes(status);
+
+export interface Job<TInput, TResult> {
+  id: string;
+  input: TInput;
+  status: JobStatus;
+  // 0–1 within the current job
+  progress: number;
+  message?: string;
+  // Model text streamed so far
+  text?: string;
+  // Set while the job is backing off or waiting for request budget
+  waitUntil?: number;
+  error?: string;
+  result?: TResult;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export type JobUpdate = Partial<Pick<Job<unknown, unknown>, 'status' | 'progress' | 'message' | 'text' | 'waitUntil'>>;
+
+export interface JobContext {
+  signal: AbortSignal;
+  update: (patch: JobUpdate) => void;
+}
+
+export type JobExecutor<TInput, TResult> = (input: TInput, context: JobContext) => Promise<TResult>;
+
+export interface JobQueue<TInput, TResult> {
+  enqueue: (input: TInput) => string;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  remove: (id: string) => void;
+  clearFinished: () => void;
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => Job<TInput, TResult>[];
+}
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+export const createJobQueue = <TInput, TResult>({
+  execute,
+  concurrency = 1,
+  firstPhase = () => 'generating',
+}: {
+  execute: JobExecutor<TInput, TResult>;
+  concurrency?: number;
+  // Status a job starts in, so it doesn't show the wrong phase before the
+  // executor's first update
+  firstPhase?: (input: TInput) => JobStatus;
+}): JobQueue<TInput, TResult> => {
+  let jobs: Job<TInput, TResult>[] = [];
+  const controllers = new Map<string, AbortController>();
+  const listeners = new Set<() => void>();
+
+  // Jobs are replaced, never mutated, so the snapshot works with useSyncExternalStore
+  const patch = (id: string, changes: Partial<Job<TInput, TResult>>) => {
+    jobs = jobs.map((job) => (job.id === id ? { ...job, ...changes } : job));
+    listeners.forEach((listener) => listener());
+  };
+
+  const find = (id: string) => jobs.find((job) => job.id === id);
+
+  const run = async (job: Job<TInput, TResult>) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    patch(job.id, { status: firstPhase(job.input), progress: 0, startedAt: Date.now() });
+
+    try {
+      const result = await execute(job.input, {
+        signal: controller.signal,
+        update: (changes) => {
+          if (!controller.signal.aborted) patch(job.id, changes);
+        },
+      });
+      if (controller.signal.aborted) throw new DOMException('Job cancelled', 'AbortError');
+      patch(job.id, { status: 'done', progress: 1, result, message: undefined, waitUntil: undefined, finishedAt: Date.now() });
+    } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) {
+        patch(job.id, { status: 'cancelled', message: undefined, waitUntil: undefined, finishedAt: Date.now() });
+      } else {
+        patch(job.id, {
+          status: 'failed',
+          message: undefined,
+          waitUntil: undefined,
+          error: error instanceof Error ? error.message : String(error),
+          finishedAt: Date.now(),
+        });
+      }
+    } finally {
+      controllers.delete(job.id);
+      pump();
+    }
+  };
+
+  // Start queued jobs while there is spare capacity
+  const pump = () => {
+    for (const job of jobs) {
+      if (controllers.size >= concurrency) return;
+      if (job.status === 'queued') run(job);
+    }
+  };
+
+  const enqueue = (input: TInput) => {
+    const job: Job<TInput, TResult> = {
+      id: crypto.randomUUID(),
+      input,
+      status: 'queued',
+      progress: 0,
+      createdAt: Date.now(),
+    };
+    jobs = [...jobs, job];
+    listeners.forEach((listener) => listener());
+    pump();
+    return job.id;
+  };
+
+  const cancel = (id: string) => {
+    const job = find(id);
+    if (!job || isJobFinished(job.status)) return;
+
+    const controller = controllers.get(id);
+    if (controller) {
+      // The running job settles as cancelled once its executor rejects
+      controller.abort();
+    } else {
+      patch(id, { status: 'cancelled', finishedAt: Date.now() });
+    }
+  };
+
+  const cancelAll = () => jobs.forEach((job) => cancel(job.id));
+
+  const remove = (id: string) => {
+    cancel(id);
+    jobs = jobs.filter((job) => job.id !== id);
+    listeners.forEach((listener) => listener());
+  };
+
+  const clearFinished = () => {
+    jobs = jobs.filter((job) => !isJobFinished(job.status));
+    listeners.forEach((listener) => listener());
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { enqueue, cancel, cancelAll, remove, clearFinished, subscribe, getSnapshot: () => jobs };
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { maskPixelsToAlpha, maskPixelsToPaint } from './mask';
+
+// One white (editable) and one black (kept) RGBA pixel, as exported
+const exportedMask = () => new Uint8ClampedArray([255, 255, 255, 255, 0, 0, 0, 255]);
+
+describe('maskPixelsToPaint', () => {
+  it('turns white into opaque paint and black into transparency', () => {
+    const data = exportedMask();
+    maskPixelsToPaint(data);
+    expect(Array.from(data)).toEqual([168, 85, 247, 255, 168, 85, 247, 0]);
+  });
+
+  it('keeps soft edges as partial alpha', () => {
+    const data = new Uint8ClampedArray([128, 128, 128, 255]);
+    maskPixelsToPaint(data);
+    expect(data[3]).toBe(128);
+  });
+});
+
+describe('maskPixelsToAlpha', () => {
+  it('makes the editable region transparent and the rest opaque', () => {
+    const data = exportedMask();
+    maskPixelsToAlpha(data);
+    expect(Array.from(data)).toEqual([0, 0, 0, 0, 0, 0, 0, 255]);
+  });
+});
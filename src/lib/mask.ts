@@ -0,0 +1,109 @@
+import { blobToBase64Image, withExtension } from './image';
+import type { Base64Image } from './types';
+
+// Masks are exported as PNGs: white where the model may edit, black elsewhere.
+// While editing, the painted region is kept as opaque colour on a transparent
+// canvas so it can be shown as an overlay.
+
+const MASK_RGB = [168, 85, 247];
+
+export const MASK_PAINT_COLOR = `rgb(${MASK_RGB.join(', ')})`;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load mask image'));
+    img.src = src;
+  });
+
+// RGBA pixels of an exported mask -> the editing overlay, in place: luminance
+// becomes the paint's alpha, so black turns transparent again
+export const maskPixelsToPaint = (data: Uint8ClampedArray) => {
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i];
+    data[i] = MASK_RGB[0];
+    data[i + 1] = MASK_RGB[1];
+    data[i + 2] = MASK_RGB[2];
+    data[i + 3] = alpha;
+  }
+};
+
+// RGBA pixels of an exported mask -> OpenAI-style alpha, in place:
+// transparent where the model may edit (white), opaque black elsewhere
+export const maskPixelsToAlpha = (data: Uint8ClampedArray) => {
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = 255 - data[i];
+    data[i] = 0;
+    data[i + 1] = 0;
+    data[i + 2] = 0;
+    data[i + 3] = alpha;
+  }
+};
+
+// Draw a previously exported mask back onto an editing canvas
+export const loadMaskInto = async (canvas: HTMLCanvasElement, mask: Base64Image) => {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const img = await loadImage(`data:${mask.mimeType};base64,${mask.data}`);
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+  maskPixelsToPaint(pixels.data);
+  context.putImageData(pixels, 0, 0);
+};
+
+const hasPaint = (canvas: HTMLCanvasElement): boolean => {
+  const context = canvas.getContext('2d');
+  if (!context) return false;
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true;
+  }
+  return false;
+};
+
+// Export the editing canvas as a black/white PNG, or undefined if nothing is painted
+export const exportMask = async (canvas: HTMLCanvasElement, name = 'image'): Promise<Base64Image | undefined> => {
+  if (!hasPaint(canvas)) return undefined;
+
+  const output = document.createElement('canvas');
+  output.width = canvas.width;
+  output.height = canvas.height;
+  const context = output.getContext('2d');
+  if (!context) return undefined;
+
+  context.drawImage(canvas, 0, 0);
+  context.globalCompositeOperation = 'source-in';
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, output.width, output.height);
+  context.globalCompositeOperation = 'destination-over';
+  context.fillStyle = '#000000';
+  context.fillRect(0, 0, output.width, output.height);
+
+  const blob = await new Promise<Blob | null>((resolve) => output.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Failed to encode mask');
+  return blobToBase64Image(blob, withExtension(`${name.replace(/\.[^./]+$/, '')}-mask`, 'image/png'));
+};
+
+// Convert a black/white mask to the alpha convention used by OpenAI-style
+// edit endpoints: transparent where the model may edit, opaque elsewhere
+export const maskToAlpha = async (mask: Base64Image): Promise<Base64Image> => {
+  const img = await loadImage(`data:${mask.mimeType};base64,${mask.data}`);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context is not available');
+
+  context.drawImage(img, 0, 0);
+  const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+  maskPixelsToAlpha(pixels.data);
+  context.putImageData(pixels, 0, 0);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Failed to encode mask');
+  return blobToBase64Image(blob, 'mask.png');
+};
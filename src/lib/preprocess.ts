@@ -0,0 +1,117 @@
+import { blobToBase64Image, withExtension } from './image';
+import type { Base64Image } from './types';
+
+// Client-side preprocessing applied to uploads before they are sent to the API.
+// Re-encoding through a canvas drops EXIF and other metadata; decoding with
+// `imageOrientation: 'from-image'` bakes the EXIF rotation into the pixels first.
+
+export type PreprocessFormat = 'original' | 'image/jpeg' | 'image/webp' | 'image/png';
+
+export interface PreprocessOptions {
+  enabled: boolean;
+  maxDimension: number;
+  format: PreprocessFormat;
+  // 0–1, ignored for PNG
+  quality: number;
+}
+
+export interface PreprocessResult {
+  image: Base64Image;
+  originalBytes: number;
+  processedBytes: number;
+  originalWidth: number;
+  originalHeight: number;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  enabled: true,
+  maxDimension: 2048,
+  format: 'original',
+  quality: 0.9,
+};
+
+// Larger originals are accepted when preprocessing will shrink them
+export const MAX_PREPROCESS_INPUT_BYTES = 50 * 1024 * 1024;
+
+export const MAX_DIMENSION_OPTIONS = [1024, 1536, 2048, 3072, 4096];
+
+const STORAGE_KEY = 'preprocess-options';
+
+export const loadPreprocessOptions = (): PreprocessOptions => {
+  try {
+    return { ...DEFAULT_PREPROCESS_OPTIONS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_PREPROCESS_OPTIONS;
+  }
+};
+
+export const savePreprocessOptions = (options: PreprocessOptions) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+};
+
+const decodeImage = async (file: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+  if (typeof createImageBitmap === 'function') {
+    return createImageBitmap(file, { imageOrientation: 'from-image' });
+  }
+
+  // Older browsers: <img> applies EXIF orientation by default
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      type,
+      quality
+    );
+  });
+
+export const preprocessImage = async (file: File, options: PreprocessOptions): Promise<PreprocessResult> => {
+  const source = await decodeImage(file);
+  const originalWidth = source.width;
+  const originalHeight = source.height;
+  const scale = Math.min(1, options.maxDimension / Math.max(originalWidth, originalHeight));
+  const width = Math.max(1, Math.round(originalWidth * scale));
+  const height = Math.max(1, Math.round(originalHeight * scale));
+
+  const mimeType = options.format === 'original' ? file.type : options.format;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context is not available');
+
+  // JPEG has no alpha channel: flatten transparency onto white instead of black
+  if (mimeType === 'image/jpeg') {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, width, height);
+  if ('close' in source) source.close();
+
+  const blob = await canvasToBlob(canvas, mimeType, options.quality);
+  const image = await blobToBase64Image(blob, withExtension(file.name, blob.type));
+
+  return {
+    image,
+    originalBytes: file.size,
+    processedBytes: blob.size,
+    originalWidth,
+    originalHeight,
+    width,
+    height,
+  };
+};
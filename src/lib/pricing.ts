@@ -0,0 +1,119 @@
+import { format, startOfDay, subDays } from 'date-fns';
+import type { UsageRecord } from './usage-log';
+
+// Estimated prices in US dollars, used to turn recorded usage into spend.
+// Defaults are list prices at the time of writing; edit them in the usage dialog
+// to match your plan. Models without a price count as free.
+
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  // Flat price per image, for APIs that bill images rather than tokens
+  perImage: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+const price = (inputPerMillion: number, outputPerMillion: number, perImage = 0): ModelPrice =>
+  ({ inputPerMillion, outputPerMillion, perImage });
+
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-2.0-flash-preview-image-generation': price(0.1, 0.4, 0.039),
+  // Images are billed as output tokens (1290 per image)
+  'gemini-2.5-flash-image': price(0.3, 30),
+  'gemini-2.0-flash-exp': price(0, 0),
+  'gemini-2.0-flash': price(0.1, 0.4),
+  'gemini-2.5-flash': price(0.3, 2.5),
+  'gpt-image-1': price(5, 40),
+  'dall-e-3': price(0, 0, 0.04),
+  'dall-e-2': price(0, 0, 0.02),
+  'gpt-4o-mini': price(0.15, 0.6),
+  'gpt-4o': price(2.5, 10),
+  'sd3.5-large': price(0, 0, 0.065),
+  'sd3.5-large-turbo': price(0, 0, 0.04),
+  'sd3.5-medium': price(0, 0, 0.035),
+};
+
+const STORAGE_KEY = 'model-prices';
+
+// Defaults with the user's edits on top
+export const loadPriceTable = (): PriceTable => {
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_PRICES;
+  }
+};
+
+export const savePriceTable = (prices: PriceTable) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(prices));
+};
+
+export const estimateCost = (record: UsageRecord, prices: PriceTable): number => {
+  const modelPrice = prices[record.model];
+  if (!modelPrice) return 0;
+  return (record.inputTokens * modelPrice.inputPerMillion + record.outputTokens * modelPrice.outputPerMillion) / 1_000_000
+    + record.images * modelPrice.perImage;
+};
+
+export const formatCost = (dollars: number) =>
+  dollars > 0 && dollars < 0.01 ? `<$0.01` : `$${dollars.toFixed(2)}`;
+
+export interface SpendSeries {
+  // Chart-safe key used in the rows below
+  key: string;
+  label: string;
+  total: number;
+}
+
+export interface DailySpend {
+  // Largest first
+  series: SpendSeries[];
+  // One row per day, oldest first: { date, [series key]: dollars }
+  rows: Array<Record<string, string | number>>;
+}
+
+// Start of the oldest day in a "last `days` days" range, today included; the
+// totals and the daily chart both use it so they cover the same records
+export const rangeStart = (days: number, now = Date.now()) => startOfDay(subDays(now, days - 1)).getTime();
+
+// Estimated spend per day over the last `days` days, one series per group
+// (e.g. per model or per profile)
+export const dailySpendBy = (
+  records: UsageRecord[],
+  prices: PriceTable,
+  groupOf: (record: UsageRecord) => string,
+  days: number,
+  now = Date.now(),
+): DailySpend => {
+  const first = rangeStart(days, now);
+  const totals = new Map<string, number>();
+  const byDay = new Map<string, Map<string, number>>();
+
+  for (const record of records) {
+    if (record.createdAt < first) continue;
+    const group = groupOf(record);
+    const cost = estimateCost(record, prices);
+    const day = format(record.createdAt, 'yyyy-MM-dd');
+    totals.set(group, (totals.get(group) ?? 0) + cost);
+    const spend = byDay.get(day) ?? new Map<string, number>();
+    spend.set(group, (spend.get(group) ?? 0) + cost);
+    byDay.set(day, spend);
+  }
+
+  // Model IDs contain dots, which can't go into the chart's CSS variable names
+  const series = Array.from(totals, ([label, total]) => ({ label, total }))
+    .sort((a, b) => b.total - a.total)
+    .map((item, index) => ({ ...item, key: `series${index}` }));
+
+  const rows = Array.from({ length: days }, (_, index) => {
+    const day = format(subDays(now, days - 1 - index), 'yyyy-MM-dd');
+    const spend = byDay.get(day);
+    return Object.fromEntries([
+      ['date', day],
+      ...series.map(({ key, label }) => [key, spend?.get(label) ?? 0]),
+    ]);
+  });
+
+  return { series, rows };
+};
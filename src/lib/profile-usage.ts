@@ -0,0 +1,44 @@
+// Request and image counters per credential profile, kept in localStorage
+
+export interface ProfileUsage {
+  requests: number;
+  images: number;
+  lastUsedAt?: number;
+}
+
+export type UsageByProfile = Record<string, ProfileUsage>;
+
+const STORAGE_KEY = 'profile-usage';
+
+export const EMPTY_USAGE: ProfileUsage = { requests: 0, images: 0 };
+
+export const loadProfileUsage = (): UsageByProfile => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveProfileUsage = (usage: UsageByProfile) => localStorage.setItem(STORAGE_KEY, JSON.stringify(usage));
+
+export const addUsage = (
+  usage: UsageByProfile,
+  profileId: string,
+  delta: Partial<Pick<ProfileUsage, 'requests' | 'images'>>,
+): UsageByProfile => {
+  const current = usage[profileId] ?? EMPTY_USAGE;
+  return {
+    ...usage,
+    [profileId]: {
+      requests: current.requests + (delta.requests ?? 0),
+      images: current.images + (delta.images ?? 0),
+      lastUsedAt: Date.now(),
+    },
+  };
+};
+
+export const resetUsage = (usage: UsageByProfile, profileId: string): UsageByProfile => {
+  const { [profileId]: _removed, ...rest } = usage;
+  return rest;
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  exportPromptTemplates,
+  fillTemplate,
+  mergePromptTemplates,
+  parsePromptTemplates,
+  templateCategories,
+  templateVariables,
+  variableLabel,
+  type PromptTemplate,
+} from './prompt-templates';
+
+const template = (id: string, overrides: Partial<PromptTemplate> = {}): PromptTemplate =>
+  ({ id, name: `Template ${id}`, category: '', template: 'A {{subject}}', ...overrides });
+
+describe('templateVariables', () => {
+  it('lists placeholders once, in order of first appearance', () => {
+    expect(templateVariables('{{subject}} in {{ place }} at {{time_of-day}}, {{subject}} again')).toEqual(['subject', 'place', 'time_of-day']);
+  });
+
+  it('ignores malformed placeholders', () => {
+    expect(templateVariables('{subject} {{ }} {{two words}}')).toEqual([]);
+  });
+});
+
+describe('fillTemplate', () => {
+  it('replaces filled placeholders and keeps empty ones visible', () => {
+    expect(fillTemplate('A {{subject}} in {{ place }}', { subject: ' fox ', place: '  ' })).toBe('A fox in {{ place }}');
+  });
+});
+
+describe('variableLabel', () => {
+  it('turns names into readable labels', () => {
+    expect(variableLabel('time_of_day')).toBe('Time of day');
+    expect(variableLabel('camera-angle')).toBe('Camera angle');
+  });
+});
+
+describe('templateCategories', () => {
+  it('lists distinct non-empty categories, sorted', () => {
+    const templates = [template('1', { category: 'Portraits' }), template('2', { category: 'Products' }), template('3'), template('4', { category: 'Portraits' })];
+    expect(templateCategories(templates)).toEqual(['Portraits', 'Products']);
+  });
+});
+
+describe('parsePromptTemplates', () => {
+  it('reads its own export format', () => {
+    const templates = [template('1', { category: 'Products' })];
+    expect(parsePromptTemplates(exportPromptTemplates(templates))).toEqual(templates);
+  });
+
+  it('accepts a bare list, trimming fields and filling in missing ids and categories', () => {
+    const [parsed] = parsePromptTemplates(JSON.stringify([{ name: ' Fox ', template: ' A {{subject}} ' }]));
+    expect(parsed).toMatchObject({ name: 'Fox', category: '', template: 'A {{subject}}' });
+    expect(parsed.id).toEqual(expect.any(String));
+  });
+
+  it('explains what is wrong with a file it cannot read', () => {
+    expect(() => parsePromptTemplates('{')).toThrow('The file is not valid JSON');
+    expect(() => parsePromptTemplates('{"something": "else"}')).toThrow(/^Not a prompt template file \(templates: /);
+    expect(() => parsePromptTemplates(JSON.stringify([{ name: 'Fox', template: '' }]))).toThrow(/^Not a prompt template file \(template 0\.template: /);
+  });
+});
+
+describe('mergePromptTemplates', () => {
+  it('replaces templates with the same id and appends new ones', () => {
+    const current = [template('1'), template('2')];
+    const incoming = [template('2', { name: 'Updated' }), template('3')];
+    expect(mergePromptTemplates(current, incoming).map(({ id, name }) => [id, name])).toEqual([
+      ['1', 'Template 1'],
+      ['2', 'Updated'],
+      ['3', 'Template 3'],
+    ]);
+  });
+});
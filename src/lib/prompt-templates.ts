@@ -0,0 +1,143 @@
+import { z } from 'zod';
+
+// Saved prompts with {{variable}} placeholders, filled in from a form before
+// use. Kept in localStorage; the starter set is used until the user edits it.
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  category: string;
+  template: string;
+}
+
+const STORAGE_KEY = 'prompt-templates';
+
+const EXPORT_VERSION = 1;
+
+export const STARTER_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'starter-product-shot',
+    name: 'Product shot',
+    category: 'Product',
+    template: 'A studio product photo of {{product}} on a {{surface}} surface, soft box lighting, clean {{background}} background, sharp focus, high detail',
+  },
+  {
+    id: 'starter-lifestyle',
+    name: 'Lifestyle scene',
+    category: 'Product',
+    template: '{{product}} being used by {{person}} in {{setting}}, natural window light, candid moment, shallow depth of field',
+  },
+  {
+    id: 'starter-portrait',
+    name: 'Portrait',
+    category: 'Photography',
+    template: 'A close-up portrait of {{subject}}, {{lighting}} lighting, 85mm lens, bokeh background, expressive eyes',
+  },
+  {
+    id: 'starter-landscape',
+    name: 'Landscape',
+    category: 'Photography',
+    template: 'A wide landscape of {{place}} at {{time_of_day}}, dramatic sky, golden light, ultra detailed',
+  },
+  {
+    id: 'starter-character',
+    name: 'Character concept',
+    category: 'Illustration',
+    template: 'Concept art of {{character}} wearing {{outfit}}, full body, {{art_style}} style, neutral background',
+  },
+  {
+    id: 'starter-sticker',
+    name: 'Sticker',
+    category: 'Illustration',
+    template: 'A cute die-cut sticker of {{subject}}, bold outlines, flat colors, white border, plain background',
+  },
+  {
+    id: 'starter-logo',
+    name: 'Logo',
+    category: 'Design',
+    template: 'A minimal logo for {{brand}}, a {{industry}} company, simple geometric {{symbol}} mark, {{colors}} palette, vector style',
+  },
+  {
+    id: 'starter-replace-background',
+    name: 'Replace background',
+    category: 'Editing',
+    template: 'Keep the subject exactly as it is and replace the background with {{new_background}}, matching the lighting and perspective',
+  },
+  {
+    id: 'starter-restyle',
+    name: 'Restyle image',
+    category: 'Editing',
+    template: 'Redraw this image in the style of {{style}}, keeping the composition and subjects the same',
+  },
+];
+
+const templateSchema = z.object({
+  id: z.string().min(1).optional(),
+  name: z.string().trim().min(1),
+  category: z.string().trim().default(''),
+  template: z.string().trim().min(1),
+});
+
+export const loadPromptTemplates = (): PromptTemplate[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : STARTER_TEMPLATES;
+  } catch {
+    return STARTER_TEMPLATES;
+  }
+};
+
+export const savePromptTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+// Placeholder names in order of first appearance
+export const templateVariables = (template: string): string[] =>
+  Array.from(new Set(Array.from(template.matchAll(VARIABLE_PATTERN), (match) => match[1])));
+
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name]?.trim() || placeholder);
+
+// "time_of_day" -> "Time of day"
+export const variableLabel = (name: string): string => {
+  const words = name.replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const templateCategories = (templates: PromptTemplate[]): string[] =>
+  Array.from(new Set(templates.map((template) => template.category).filter(Boolean))).sort();
+
+export const exportPromptTemplates = (templates: PromptTemplate[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, templates }, null, 2);
+
+// Parse an exported file; throws with a readable message when it isn't one
+export const parsePromptTemplates = (json: string): PromptTemplate[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  // Either an export file or a bare list of templates
+  const list = Array.isArray(data) ? data : (data as { templates?: unknown } | null)?.templates;
+  const parsed = z.array(templateSchema).safeParse(list);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const location = issue.path.length > 0 ? `template ${issue.path.join('.')}` : 'templates';
+    throw new Error(`Not a prompt template file (${location}: ${issue.message})`);
+  }
+
+  return parsed.data.map(({ id, name, category, template }) =>
+    ({ id: id ?? crypto.randomUUID(), name, category, template }));
+};
+
+// Imported templates replace ones with the same id and are added otherwise
+export const mergePromptTemplates = (current: PromptTemplate[], incoming: PromptTemplate[]): PromptTemplate[] => {
+  const byId = new Map(incoming.map((template) => [template.id, template]));
+  const merged = current.map((template) => byId.get(template.id) ?? template);
+  const existing = new Set(current.map((template) => template.id));
+  return [...merged, ...incoming.filter((template) => !existing.has(template.id))];
+};
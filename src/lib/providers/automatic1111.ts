@@ -0,0 +1,56 @@
+import { postJson, resolveBaseUrl } from './http';
+import { aspectRatioDimensions } from './models';
+import type { ImageProvider } from './types';
+
+// Self-hosted Stable Diffusion WebUI (AUTOMATIC1111) started with --api
+
+interface SdApiResponse {
+  images?: string[];
+}
+
+const toResult = (response: SdApiResponse) => ({
+  images: (response.images ?? []).map((data) => ({ data, mimeType: 'image/png' })),
+});
+
+export const automatic1111Provider: ImageProvider = {
+  id: 'automatic1111',
+  name: 'Automatic1111 (self-hosted)',
+  requiresApiKey: false,
+  defaultBaseUrl: 'http://127.0.0.1:7860',
+  // Empty: use whichever checkpoint the server has loaded
+  defaultModel: '',
+  capabilities: {
+    textToImage: true,
+    imageToImage: true,
+    maxReferenceImages: 1,
+    masks: true,
+    conversation: false,
+    promptEnhancement: false,
+    safetySettings: false,
+    negativePrompt: true,
+  },
+  generate: async (request, config) => {
+    const response = await postJson<SdApiResponse>('automatic1111', `${resolveBaseUrl(config, automatic1111Provider.defaultBaseUrl)}/sdapi/v1/txt2img`, {
+      prompt: request.prompt,
+      negative_prompt: request.negativePrompt ?? '',
+      steps: 25,
+      ...(request.aspectRatio ? aspectRatioDimensions(request.aspectRatio) : {}),
+      ...(config.model ? { override_settings: { sd_model_checkpoint: config.model } } : {}),
+    }, { signal: request.signal });
+    return { images: toResult(response).images.slice(0, 1) };
+  },
+  edit: async (request, config) => {
+    const [reference] = request.references;
+    const response = await postJson<SdApiResponse>('automatic1111', `${resolveBaseUrl(config, automatic1111Provider.defaultBaseUrl)}/sdapi/v1/img2img`, {
+      prompt: request.prompt,
+      negative_prompt: request.negativePrompt ?? '',
+      init_images: [reference.image.data],
+      denoising_strength: reference.mask ? 0.75 : 0.6,
+      steps: 25,
+      ...(reference.mask ? { mask: reference.mask.data, inpainting_fill: 1, inpaint_full_res: false } : {}),
+      ...(config.model ? { override_settings: { sd_model_checkpoint: config.model } } : {}),
+    }, { signal: request.signal });
+    // img2img with a mask also returns the mask; keep the generated image only
+    return { images: toResult(response).images.slice(0, 1) };
+  },
+};
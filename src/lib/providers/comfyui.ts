@@ -0,0 +1,97 @@
+import { blobToBase64Image } from '../image';
+import { sleep } from '../retry';
+import { ProviderError } from './errors';
+import { postJson, request as send, resolveBaseUrl } from './http';
+import { aspectRatioDimensions, type AspectRatio } from './models';
+import type { ImageProvider } from './types';
+
+// Self-hosted ComfyUI. Queues a standard checkpoint text-to-image workflow and
+// polls its history until the output image is available.
+
+interface QueueResponse {
+  prompt_id: string;
+}
+
+interface HistoryResponse {
+  [promptId: string]: {
+    status?: { status_str?: string; messages?: unknown[] };
+    outputs?: Record<string, { images?: Array<{ filename: string; subfolder: string; type: string }> }>;
+  };
+}
+
+const POLL_INTERVAL_MS = 1000;
+const TIMEOUT_MS = 5 * 60 * 1000;
+
+const SAVE_NODE = '9';
+
+const buildWorkflow = (prompt: string, negativePrompt: string, checkpoint: string, aspectRatio: AspectRatio = '1:1') => ({
+  '4': { class_type: 'CheckpointLoaderSimple', inputs: { ckpt_name: checkpoint } },
+  '5': { class_type: 'EmptyLatentImage', inputs: { ...aspectRatioDimensions(aspectRatio), batch_size: 1 } },
+  '6': { class_type: 'CLIPTextEncode', inputs: { text: prompt, clip: ['4', 1] } },
+  '7': { class_type: 'CLIPTextEncode', inputs: { text: negativePrompt, clip: ['4', 1] } },
+  '3': {
+    class_type: 'KSampler',
+    inputs: {
+      seed: Math.floor(Math.random() * 2 ** 32),
+      steps: 25,
+      cfg: 7,
+      sampler_name: 'euler',
+      scheduler: 'normal',
+      denoise: 1,
+      model: ['4', 0],
+      positive: ['6', 0],
+      negative: ['7', 0],
+      latent_image: ['5', 0],
+    },
+  },
+  '8': { class_type: 'VAEDecode', inputs: { samples: ['3', 0], vae: ['4', 2] } },
+  [SAVE_NODE]: { class_type: 'SaveImage', inputs: { filename_prefix: 'swap-creations', images: ['8', 0] } },
+});
+
+export const comfyuiProvider: ImageProvider = {
+  id: 'comfyui',
+  name: 'ComfyUI (self-hosted)',
+  requiresApiKey: false,
+  defaultBaseUrl: 'http://127.0.0.1:8188',
+  defaultModel: 'sd_xl_base_1.0.safetensors',
+  capabilities: {
+    textToImage: true,
+    imageToImage: false,
+    maxReferenceImages: 0,
+    masks: false,
+    conversation: false,
+    promptEnhancement: false,
+    safetySettings: false,
+    negativePrompt: true,
+  },
+  generate: async (request, config) => {
+    const root = resolveBaseUrl(config, comfyuiProvider.defaultBaseUrl);
+    const { prompt_id: promptId } = await postJson<QueueResponse>('comfyui', `${root}/prompt`, {
+      prompt: buildWorkflow(request.prompt, request.negativePrompt ?? '', config.model || comfyuiProvider.defaultModel, request.aspectRatio),
+      client_id: 'swap-creations',
+    }, { signal: request.signal });
+
+    const deadline = Date.now() + TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      await sleep(POLL_INTERVAL_MS, request.signal);
+      const history = (await (await send('comfyui', `${root}/history/${promptId}`, { signal: request.signal })).json()) as HistoryResponse;
+      const entry = history[promptId];
+      if (!entry) continue;
+      if (entry.status?.status_str === 'error') {
+        throw new ProviderError('comfyui', 'ComfyUI failed to execute the workflow');
+      }
+
+      const output = entry.outputs?.[SAVE_NODE]?.images?.[0];
+      if (!output) continue;
+
+      const params = new URLSearchParams({ filename: output.filename, subfolder: output.subfolder, type: output.type });
+      const image = await send('comfyui', `${root}/view?${params}`, { signal: request.signal });
+      return { images: [await blobToBase64Image(await image.blob(), output.filename)] };
+    }
+
+    throw new ProviderError('comfyui', 'Timed out waiting for ComfyUI to finish');
+  },
+  edit: async () => {
+    throw new ProviderError('comfyui', 'Image to image is not supported by the ComfyUI provider');
+  },
+};
@@ -0,0 +1,36 @@
+import { redact } from '../redact';
+import { describeSafetyBlock, type SafetyBlock } from '../safety';
+import type { ProviderId } from './types';
+
+// Error thrown by the non-Gemini providers. `status` is the HTTP status (0 when
+// there was no HTTP response); `retryAfterMs` comes from a Retry-After header.
+// `network` marks failures to reach the server, the only status-0 errors retried.
+export class ProviderError extends Error {
+  readonly provider: ProviderId;
+  readonly status: number;
+  readonly retryAfterMs?: number;
+  readonly network: boolean;
+
+  constructor(provider: ProviderId, message: string, status = 0, retryAfterMs?: number, { network = false } = {}) {
+    super(redact(message));
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.network = network;
+  }
+}
+
+// The provider's safety filters refused the prompt or withheld the output.
+// Retrying the same request won't help, so it is reported like a bad request.
+export class SafetyBlockError extends ProviderError {
+  readonly block: SafetyBlock;
+
+  constructor(provider: ProviderId, block: SafetyBlock) {
+    super(provider, describeSafetyBlock(block), 400);
+    this.name = 'SafetyBlockError';
+    this.block = block;
+  }
+}
+
+export const isSafetyBlockError = (error: unknown): error is SafetyBlockError => error instanceof SafetyBlockError;
@@ -0,0 +1,82 @@
+import { createGeminiClient, getImages, getText, textPart, type UsageMetadata } from '../gemini';
+import { buildReferenceParts } from '../references';
+import { safetyBlockFrom, toSafetySettings } from '../safety';
+import { buildSessionContents } from '../session';
+import { SafetyBlockError } from './errors';
+import { proxyBaseUrl } from './proxy';
+import type { ImageProvider, ImageRequest, ProviderConfig, TokenUsage } from './types';
+
+const DEFAULT_ENHANCE_MODEL = 'gemini-2.0-flash-exp';
+
+const toTokenUsage = (metadata?: UsageMetadata): TokenUsage | undefined => metadata && {
+  inputTokens: metadata.promptTokenCount ?? 0,
+  outputTokens: metadata.candidatesTokenCount ?? 0,
+  totalTokens: metadata.totalTokenCount ?? 0,
+};
+
+// Through the proxy the stored key is the user's proxy access token
+const clientFor = (config: ProviderConfig) => (config.useProxy
+  ? createGeminiClient({ accessToken: config.apiKey, baseUrl: proxyBaseUrl(config) })
+  : createGeminiClient({ apiKey: config.apiKey, baseUrl: config.baseUrl.trim() || undefined }));
+
+// Generation and editing are the same call: references ride along as inline parts.
+// The response is streamed so text shows up while the image is being made.
+const generateContent = async (request: ImageRequest, config: ProviderConfig) => {
+  const contents = request.history
+    ? buildSessionContents(request.history, request.prompt, request.references)
+    : [{ parts: buildReferenceParts(request.prompt, request.references) }];
+
+  request.onProgress?.({ stage: 'waiting' });
+  const response = await clientFor(config).streamGenerateContent(config.model || geminiProvider.defaultModel, {
+    contents,
+    generationConfig: {
+      responseModalities: ['TEXT', 'IMAGE'],
+      ...(request.aspectRatio ? { imageConfig: { aspectRatio: request.aspectRatio } } : {}),
+    },
+    safetySettings: toSafetySettings(request.safety),
+  }, {
+    signal: request.signal,
+    onChunk: (chunk, merged) => request.onProgress?.({
+      stage: getImages(merged).length > 0 ? 'finishing' : 'writing',
+      text: getText(merged) || undefined,
+    }),
+  });
+
+  const images = getImages(response);
+  // Without an image, say why instead of reporting an empty response
+  const block = images.length === 0 ? safetyBlockFrom(response) : undefined;
+  if (block) throw new SafetyBlockError('gemini', block);
+
+  return { images, text: getText(response) || undefined, usage: toTokenUsage(response.usageMetadata) };
+};
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  requiresApiKey: true,
+  defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  defaultModel: 'gemini-2.0-flash-preview-image-generation',
+  defaultEnhanceModel: DEFAULT_ENHANCE_MODEL,
+  supportsProxy: true,
+  capabilities: {
+    textToImage: true,
+    imageToImage: true,
+    maxReferenceImages: 4,
+    masks: true,
+    conversation: true,
+    promptEnhancement: true,
+    safetySettings: true,
+    negativePrompt: false,
+  },
+  generate: generateContent,
+  edit: generateContent,
+  enhancePrompt: async ({ prompt, systemInstruction, temperature, maxOutputTokens, signal }, config) => {
+    const response = await clientFor(config).generateContent(config.enhanceModel || DEFAULT_ENHANCE_MODEL, {
+      systemInstruction: { parts: [textPart(systemInstruction)] },
+      contents: [{ role: 'user', parts: [textPart(prompt)] }],
+      generationConfig: { maxOutputTokens, temperature },
+    }, { signal });
+
+    return { prompt: getText(response) || prompt, usage: toTokenUsage(response.usageMetadata) };
+  },
+};
@@ -0,0 +1,63 @@
+import { sendRequest } from '../http';
+import { parseRetryAfter } from '../retry';
+import { ProviderError } from './errors';
+import type { ProviderConfig, ProviderId } from './types';
+
+export const resolveBaseUrl = (config: ProviderConfig, defaultBaseUrl: string) =>
+  (config.baseUrl.trim() || defaultBaseUrl).replace(/\/+$/, '');
+
+// Pull a human-readable message out of the various error body shapes
+const errorMessage = async (response: Response): Promise<string> => {
+  const fallback = `HTTP error! status: ${response.status}`;
+  try {
+    const body = await response.json();
+    return body?.error?.message
+      ?? (typeof body?.error === 'string' ? body.error : undefined)
+      ?? body?.message
+      ?? body?.errors?.join?.(', ')
+      ?? (typeof body?.detail === 'string' ? body.detail : undefined)
+      ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// sendRequest with network and HTTP failures mapped to ProviderError
+export const request = (provider: ProviderId, url: string, init: RequestInit): Promise<Response> =>
+  sendRequest(url, init, {
+    toNetworkError: (message) => new ProviderError(provider, message, 0, undefined, { network: true }),
+    toHttpError: async (response) => {
+      const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+      return new ProviderError(provider, await errorMessage(response), response.status, retryAfterMs);
+    },
+  });
+
+export const postJson = async <T>(
+  provider: ProviderId,
+  url: string,
+  body: unknown,
+  options: { headers?: Record<string, string>; signal?: AbortSignal } = {},
+): Promise<T> => {
+  const response = await request(provider, url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+    body: JSON.stringify(body),
+    signal: options.signal,
+  });
+  return (await response.json()) as T;
+};
+
+export const postForm = async <T>(
+  provider: ProviderId,
+  url: string,
+  form: FormData,
+  options: { headers?: Record<string, string>; signal?: AbortSignal } = {},
+): Promise<T> => {
+  const response = await request(provider, url, {
+    method: 'POST',
+    headers: options.headers,
+    body: form,
+    signal: options.signal,
+  });
+  return (await response.json()) as T;
+};
@@ -0,0 +1,6 @@
+export * from './types';
+export * from './errors';
+export * from './models';
+export * from './registry';
+export * from './proxy';
+export * from './settings';
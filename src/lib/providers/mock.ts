@@ -0,0 +1,202 @@
+import { parseDataUrl, toDataUrl } from '../image';
+import { sleep } from '../retry';
+import type { Base64Image } from '../types';
+import { allowsProbability, type SafetyThresholds } from '../safety';
+import { ProviderError, SafetyBlockError } from './errors';
+import { aspectRatioDimensions } from './models';
+import type { ImageProvider, ImageRequest } from './types';
+
+// Offline stand-in for developing and testing the UI without a key or network.
+// Images are drawn on a canvas from a hash of the prompt, so the same request
+// always gives the same picture. Directives in the prompt simulate failures:
+//
+//   [mock:slow]     ten times the usual latency
+//   [mock:error]    a rejected request (not retried)
+//   [mock:blocked]  a safety block (dangerous content, rated high), unless
+//                   that category's threshold is "Block none" or "Off"
+//   [mock:429]      always rate limited, with Retry-After
+//   [mock:flaky]    every other call fails with 503, so retries succeed
+
+const DIRECTIVE = /\[mock:(\w+)\]/gi;
+
+const LATENCY_MS = Number(import.meta.env.VITE_MOCK_LATENCY_MS ?? 1200);
+// Delay between streamed words of the response text
+const STREAM_STEP_MS = 150;
+
+const RESPONSE_TEXT = 'Placeholder image from the mock provider';
+
+// What Gemini bills for one generated image
+const IMAGE_TOKENS = 1290;
+
+// Plausible token counts (about four characters per token) so usage tracking has data offline
+const estimateUsage = (input: string, output: string, extraOutputTokens = 0) => {
+  const inputTokens = Math.ceil(input.length / 4);
+  const outputTokens = Math.ceil(output.length / 4) + extraOutputTokens;
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+};
+
+// Counts calls for [mock:flaky]
+let calls = 0;
+
+const directivesOf = (prompt: string) => new Set(Array.from(prompt.matchAll(DIRECTIVE), ([, name]) => name.toLowerCase()));
+
+const stripDirectives = (prompt: string) => prompt.replace(DIRECTIVE, '').replace(/\s+/g, ' ').trim();
+
+// FNV-1a
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Small seeded PRNG (mulberry32) returning numbers in [0, 1)
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load reference image'));
+    img.src = src;
+  });
+
+// Wait like a real API would, then fail the way the prompt asks
+const simulateCall = async (prompt: string, signal?: AbortSignal, safety: SafetyThresholds = {}) => {
+  const directives = directivesOf(prompt);
+  calls++;
+  await sleep(directives.has('slow') ? LATENCY_MS * 10 : LATENCY_MS, signal);
+
+  if (directives.has('error')) throw new ProviderError('mock', 'Mock provider rejected the request', 400);
+  if (directives.has('blocked') && !allowsProbability(safety.HARM_CATEGORY_DANGEROUS_CONTENT, 'HIGH')) {
+    throw new SafetyBlockError('mock', {
+      source: 'prompt',
+      reason: 'SAFETY',
+      ratings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH', blocked: true }],
+    });
+  }
+  if (directives.has('429')) throw new ProviderError('mock', 'Rate limit exceeded (simulated)', 429, 3000);
+  if (directives.has('flaky') && calls % 2 === 1) throw new ProviderError('mock', 'Service unavailable (simulated)', 503);
+};
+
+const wrapText = (context: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && context.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.slice(0, 6);
+};
+
+// Gradient and shapes seeded by the prompt, over the image being edited (if
+// any), with the prompt written across the middle
+const renderPlaceholder = async (request: ImageRequest): Promise<Base64Image> => {
+  const prompt = stripDirectives(request.prompt) || 'Untitled';
+  const random = seededRandom(hashString(prompt));
+  const { width, height } = aspectRatioDimensions(request.aspectRatio ?? '1:1', 768);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new ProviderError('mock', 'Canvas is not available');
+
+  const hue = Math.floor(random() * 360);
+  const gradient = context.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 70%, 45%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60 + random() * 120) % 360}, 70%, 25%)`);
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, width, height);
+
+  const base = request.history?.[request.history.length - 1]?.image ?? request.references[0]?.image;
+  if (base) {
+    context.globalAlpha = 0.5;
+    context.drawImage(await loadImage(toDataUrl(base)), 0, 0, width, height);
+    context.globalAlpha = 1;
+  }
+
+  for (let i = 0; i < 6; i++) {
+    context.fillStyle = `hsla(${(hue + random() * 180) % 360}, 80%, 70%, 0.35)`;
+    context.beginPath();
+    context.arc(random() * width, random() * height, 40 + random() * width * 0.2, 0, Math.PI * 2);
+    context.fill();
+  }
+
+  context.fillStyle = 'white';
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.font = `600 ${Math.round(width / 22)}px sans-serif`;
+  const lines = wrapText(context, prompt, width * 0.85);
+  const lineHeight = width / 16;
+  lines.forEach((line, index) => {
+    context.fillText(line, width / 2, height / 2 + (index - (lines.length - 1) / 2) * lineHeight);
+  });
+  context.font = `${Math.round(width / 40)}px monospace`;
+  context.fillText('MOCK', width / 2, height - lineHeight);
+
+  const mimeType = request.outputFormat ?? 'image/png';
+  return { ...parseDataUrl(canvas.toDataURL(mimeType), mimeType), name: `mock-${hashString(prompt).toString(16)}` };
+};
+
+const generatePlaceholder = async (request: ImageRequest) => {
+  request.onProgress?.({ stage: 'waiting' });
+  await simulateCall(request.prompt, request.signal, request.safety);
+
+  // Stream the reply word by word, as the Gemini provider does
+  const words = RESPONSE_TEXT.split(' ');
+  for (let count = 1; count <= words.length; count++) {
+    await sleep(STREAM_STEP_MS, request.signal);
+    request.onProgress?.({ stage: 'writing', text: words.slice(0, count).join(' ') });
+  }
+
+  const image = await renderPlaceholder(request);
+  request.onProgress?.({ stage: 'finishing', text: RESPONSE_TEXT });
+  return { images: [image], text: RESPONSE_TEXT, usage: estimateUsage(request.prompt, RESPONSE_TEXT, IMAGE_TOKENS) };
+};
+
+const ENHANCEMENTS = ['highly detailed', 'soft cinematic lighting', 'vivid colours', 'shallow depth of field', 'studio quality', 'golden hour'];
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  name: 'Mock (offline)',
+  requiresApiKey: false,
+  defaultBaseUrl: '',
+  defaultModel: 'mock-image',
+  defaultEnhanceModel: 'mock-text',
+  offline: true,
+  capabilities: {
+    textToImage: true,
+    imageToImage: true,
+    maxReferenceImages: 4,
+    masks: true,
+    conversation: true,
+    promptEnhancement: true,
+    safetySettings: true,
+    negativePrompt: false,
+  },
+  generate: generatePlaceholder,
+  edit: generatePlaceholder,
+  // Ignores the strategy's instruction; the temperature decides how much is added
+  enhancePrompt: async ({ prompt, temperature, signal }) => {
+    await simulateCall(prompt, signal);
+    const random = seededRandom(hashString(`${prompt}:${temperature}`));
+    // About half the phrases at the default 0.7, none at 0
+    const extras = ENHANCEMENTS.filter(() => random() < temperature / 1.4);
+    const enhanced = [prompt, ...extras].join(', ');
+    return { prompt: enhanced, usage: estimateUsage(prompt, enhanced) };
+  },
+};
@@ -0,0 +1,182 @@
+import type { GenerationMode } from '../types';
+import type { ImageProvider, ProviderId } from './types';
+
+// Registry of known models per provider and what each one supports. The UI
+// offers these in the model selectors and disables controls a model can't use;
+// unlisted model IDs can still be entered and inherit the provider default's
+// capabilities.
+
+export const ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '4:7', '7:4', '21:9', '9:21'] as const;
+
+export type AspectRatio = typeof ASPECT_RATIOS[number];
+
+export type OutputFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export interface ImageModelInfo {
+  id: string;
+  provider: ProviderId;
+  name: string;
+  modes: GenerationMode[];
+  maxInputImages: number;
+  masks: boolean;
+  // First entry is the default
+  outputFormats: OutputFormat[];
+  aspectRatios: AspectRatio[];
+}
+
+export interface TextModelInfo {
+  id: string;
+  provider: ProviderId;
+  name: string;
+}
+
+const BOTH_MODES: GenerationMode[] = ['text-to-image', 'image-to-image'];
+const ALL_FORMATS: OutputFormat[] = ['image/png', 'image/jpeg', 'image/webp'];
+// Self-hosted Stable Diffusion renders any size; these are the usual SDXL shapes
+const SD_RATIOS: AspectRatio[] = ['1:1', '4:3', '3:4', '3:2', '2:3', '16:9', '9:16'];
+const STABILITY_RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16', '21:9', '9:21', '3:2', '2:3', '5:4', '4:5'];
+
+// Stability's models share endpoints, so they differ only in name
+const stabilityModel = (id: string, name: string): ImageModelInfo => ({
+  id,
+  provider: 'stability',
+  name,
+  modes: BOTH_MODES,
+  maxInputImages: 1,
+  masks: true,
+  outputFormats: ALL_FORMATS,
+  aspectRatios: STABILITY_RATIOS,
+});
+
+export const IMAGE_MODELS: ImageModelInfo[] = [
+  {
+    id: 'gemini-2.0-flash-preview-image-generation',
+    provider: 'gemini',
+    name: 'Gemini 2.0 Flash (image generation preview)',
+    modes: BOTH_MODES,
+    maxInputImages: 4,
+    masks: true,
+    outputFormats: ['image/png'],
+    aspectRatios: ['1:1'],
+  },
+  {
+    id: 'gemini-2.5-flash-image',
+    provider: 'gemini',
+    name: 'Gemini 2.5 Flash Image',
+    modes: BOTH_MODES,
+    maxInputImages: 4,
+    masks: true,
+    outputFormats: ['image/png'],
+    aspectRatios: ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'],
+  },
+  {
+    id: 'gpt-image-1',
+    provider: 'openai',
+    name: 'GPT Image 1',
+    modes: BOTH_MODES,
+    maxInputImages: 4,
+    masks: true,
+    outputFormats: ALL_FORMATS,
+    aspectRatios: ['1:1', '3:2', '2:3'],
+  },
+  {
+    id: 'dall-e-3',
+    provider: 'openai',
+    name: 'DALL·E 3',
+    modes: ['text-to-image'],
+    maxInputImages: 0,
+    masks: false,
+    outputFormats: ['image/png'],
+    aspectRatios: ['1:1', '7:4', '4:7'],
+  },
+  {
+    id: 'dall-e-2',
+    provider: 'openai',
+    name: 'DALL·E 2',
+    modes: BOTH_MODES,
+    maxInputImages: 1,
+    masks: true,
+    outputFormats: ['image/png'],
+    aspectRatios: ['1:1'],
+  },
+  stabilityModel('sd3.5-large', 'Stable Diffusion 3.5 Large'),
+  stabilityModel('sd3.5-large-turbo', 'Stable Diffusion 3.5 Large Turbo'),
+  stabilityModel('sd3.5-medium', 'Stable Diffusion 3.5 Medium'),
+  {
+    id: '',
+    provider: 'automatic1111',
+    name: 'Checkpoint loaded on the server',
+    modes: BOTH_MODES,
+    maxInputImages: 1,
+    masks: true,
+    outputFormats: ['image/png'],
+    aspectRatios: SD_RATIOS,
+  },
+  {
+    id: 'sd_xl_base_1.0.safetensors',
+    provider: 'comfyui',
+    name: 'SDXL Base 1.0',
+    modes: ['text-to-image'],
+    maxInputImages: 0,
+    masks: false,
+    outputFormats: ['image/png'],
+    aspectRatios: SD_RATIOS,
+  },
+  {
+    id: 'mock-image',
+    provider: 'mock',
+    name: 'Placeholder renderer',
+    modes: BOTH_MODES,
+    maxInputImages: 4,
+    masks: true,
+    outputFormats: ALL_FORMATS,
+    aspectRatios: [...ASPECT_RATIOS],
+  },
+];
+
+export const TEXT_MODELS: TextModelInfo[] = [
+  { id: 'gemini-2.0-flash-exp', provider: 'gemini', name: 'Gemini 2.0 Flash (experimental)' },
+  { id: 'gemini-2.0-flash', provider: 'gemini', name: 'Gemini 2.0 Flash' },
+  { id: 'gemini-2.5-flash', provider: 'gemini', name: 'Gemini 2.5 Flash' },
+  { id: 'gpt-4o-mini', provider: 'openai', name: 'GPT-4o mini' },
+  { id: 'gpt-4o', provider: 'openai', name: 'GPT-4o' },
+  { id: 'mock-text', provider: 'mock', name: 'Keyword enhancer' },
+];
+
+export const imageModelsFor = (provider: ProviderId) => IMAGE_MODELS.filter((model) => model.provider === provider);
+
+export const textModelsFor = (provider: ProviderId) => TEXT_MODELS.filter((model) => model.provider === provider);
+
+// Capabilities of the configured image model ('' meaning the provider default)
+export const resolveImageModel = (provider: ImageProvider, modelId: string): ImageModelInfo => {
+  const id = modelId.trim() || provider.defaultModel;
+  const models = imageModelsFor(provider.id);
+  const known = models.find((model) => model.id === id);
+  if (known) return known;
+
+  const fallback = models.find((model) => model.id === provider.defaultModel);
+  const { capabilities } = provider;
+  return {
+    modes: [
+      ...(capabilities.textToImage ? ['text-to-image' as const] : []),
+      ...(capabilities.imageToImage ? ['image-to-image' as const] : []),
+    ],
+    maxInputImages: capabilities.maxReferenceImages,
+    masks: capabilities.masks,
+    outputFormats: ['image/png'],
+    aspectRatios: ['1:1'],
+    ...fallback,
+    id,
+    provider: provider.id,
+    name: id,
+  };
+};
+
+// Pixel size for an aspect ratio with the given long edge, rounded to a
+// multiple of 64 as Stable Diffusion expects
+export const aspectRatioDimensions = (ratio: AspectRatio, longEdge = 1024) => {
+  const [w, h] = ratio.split(':').map(Number);
+  const scale = longEdge / Math.max(w, h);
+  const round = (value: number) => Math.max(64, Math.round((value * scale) / 64) * 64);
+  return { width: round(w), height: round(h) };
+};
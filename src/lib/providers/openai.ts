@@ -0,0 +1,126 @@
+import { base64ToBlob } from '../image';
+import { maskToAlpha } from '../mask';
+import { postForm, postJson, resolveBaseUrl } from './http';
+import type { AspectRatio, OutputFormat } from './models';
+import type { ImageProvider, ImageRequest, ProviderConfig, TokenUsage } from './types';
+
+const DEFAULT_ENHANCE_MODEL = 'gpt-4o-mini';
+
+// Supported sizes per model; other models get the server default
+const SIZES: Record<string, Partial<Record<AspectRatio, string>>> = {
+  'gpt-image-1': { '1:1': '1024x1024', '3:2': '1536x1024', '2:3': '1024x1536' },
+  'dall-e-3': { '1:1': '1024x1024', '7:4': '1792x1024', '4:7': '1024x1792' },
+};
+
+const OUTPUT_FORMATS: Record<OutputFormat, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/webp': 'webp',
+};
+
+// OpenAI and compatible servers (/v1/images/generations, /v1/images/edits)
+
+interface ImagesResponse {
+  data?: Array<{ b64_json?: string; revised_prompt?: string }>;
+  // gpt-image-1 only
+  usage?: { input_tokens?: number; output_tokens?: number; total_tokens?: number };
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+const headers = (config: ProviderConfig) => ({ Authorization: `Bearer ${config.apiKey}` });
+
+// Size and format parameters the request asks for, as API fields
+const outputParams = (model: string, request: ImageRequest): Record<string, string> => {
+  const size = request.aspectRatio && SIZES[model]?.[request.aspectRatio];
+  return {
+    ...(size ? { size } : {}),
+    ...(request.outputFormat ? { output_format: OUTPUT_FORMATS[request.outputFormat] } : {}),
+  };
+};
+
+const toResult = (response: ImagesResponse, mimeType: OutputFormat = 'image/png') => ({
+  images: (response.data ?? [])
+    .filter((item) => item.b64_json)
+    .map((item) => ({ data: item.b64_json as string, mimeType })),
+  text: response.data?.[0]?.revised_prompt,
+  usage: response.usage && {
+    inputTokens: response.usage.input_tokens ?? 0,
+    outputTokens: response.usage.output_tokens ?? 0,
+    totalTokens: response.usage.total_tokens ?? 0,
+  },
+});
+
+export const openaiProvider: ImageProvider = {
+  id: 'openai',
+  name: 'OpenAI-compatible',
+  requiresApiKey: true,
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  defaultModel: 'gpt-image-1',
+  defaultEnhanceModel: DEFAULT_ENHANCE_MODEL,
+  capabilities: {
+    textToImage: true,
+    imageToImage: true,
+    maxReferenceImages: 4,
+    masks: true,
+    conversation: false,
+    promptEnhancement: true,
+    safetySettings: false,
+    negativePrompt: false,
+  },
+  generate: async (request, config) => {
+    const model = config.model || openaiProvider.defaultModel;
+    const response = await postJson<ImagesResponse>('openai', `${resolveBaseUrl(config, openaiProvider.defaultBaseUrl)}/images/generations`, {
+      model,
+      prompt: request.prompt,
+      n: 1,
+      // gpt-image-1 always returns base64 and rejects response_format
+      ...(model.startsWith('dall-e') ? { response_format: 'b64_json' } : {}),
+      ...outputParams(model, request),
+    }, { headers: headers(config), signal: request.signal });
+    return toResult(response, request.outputFormat);
+  },
+  edit: async (request, config) => {
+    const model = config.model || openaiProvider.defaultModel;
+    const form = new FormData();
+    form.append('model', model);
+    form.append('prompt', request.prompt);
+    if (model.startsWith('dall-e')) form.append('response_format', 'b64_json');
+    Object.entries(outputParams(model, request)).forEach(([key, value]) => form.append(key, value));
+
+    const field = request.references.length > 1 ? 'image[]' : 'image';
+    request.references.forEach(({ image }, index) => {
+      form.append(field, base64ToBlob(image), image.name || `image-${index + 1}.png`);
+    });
+
+    // OpenAI masks mark the editable region with transparency and apply to the first image
+    const mask = request.references[0]?.mask;
+    if (mask) form.append('mask', base64ToBlob(await maskToAlpha(mask)), 'mask.png');
+
+    const response = await postForm<ImagesResponse>('openai', `${resolveBaseUrl(config, openaiProvider.defaultBaseUrl)}/images/edits`, form, {
+      headers: headers(config),
+      signal: request.signal,
+    });
+    return toResult(response, request.outputFormat);
+  },
+  enhancePrompt: async ({ prompt, systemInstruction, temperature, maxOutputTokens, signal }, config) => {
+    const response = await postJson<ChatCompletionResponse>('openai', `${resolveBaseUrl(config, openaiProvider.defaultBaseUrl)}/chat/completions`, {
+      model: config.enhanceModel || DEFAULT_ENHANCE_MODEL,
+      max_tokens: maxOutputTokens,
+      temperature,
+      messages: [
+        { role: 'system', content: systemInstruction },
+        { role: 'user', content: prompt },
+      ],
+    }, { headers: headers(config), signal });
+    const usage: TokenUsage | undefined = response.usage && {
+      inputTokens: response.usage.prompt_tokens ?? 0,
+      outputTokens: response.usage.completion_tokens ?? 0,
+      totalTokens: response.usage.total_tokens ?? 0,
+    };
+    return { prompt: response.choices?.[0]?.message?.content?.trim() || prompt, usage };
+  },
+};
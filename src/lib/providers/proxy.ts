@@ -0,0 +1,17 @@
+import type { ImageProvider, ProviderConfig } from './types';
+
+// Team proxy (proxy/server.mjs) for shared deployments, which keeps the
+// provider key on the server
+export const DEFAULT_PROXY_URL = import.meta.env.VITE_PROXY_URL ?? '';
+
+export const usesProxy = (provider: ImageProvider, config: ProviderConfig) =>
+  Boolean(provider.supportsProxy && config.useProxy);
+
+// The proxy mirrors the Gemini REST paths. With no URL at all it is expected
+// on the app's own origin, e.g. behind the same reverse proxy.
+export const proxyBaseUrl = (config: ProviderConfig) =>
+  `${(config.proxyUrl.trim() || DEFAULT_PROXY_URL).replace(/\/+$/, '')}/v1beta`;
+
+// The access token is optional: a proxy without a users file accepts anyone
+export const needsApiKey = (provider: ImageProvider, config: ProviderConfig) =>
+  provider.requiresApiKey && !usesProxy(provider, config);
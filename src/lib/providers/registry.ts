@@ -0,0 +1,20 @@
+import { automatic1111Provider } from './automatic1111';
+import { comfyuiProvider } from './comfyui';
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+import { openaiProvider } from './openai';
+import { stabilityProvider } from './stability';
+import type { ImageProvider, ProviderId } from './types';
+
+export const PROVIDERS: Record<ProviderId, ImageProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  stability: stabilityProvider,
+  automatic1111: automatic1111Provider,
+  comfyui: comfyuiProvider,
+  mock: mockProvider,
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDERS) as ProviderId[];
+
+export const getProvider = (id: ProviderId): ImageProvider => PROVIDERS[id] ?? geminiProvider;
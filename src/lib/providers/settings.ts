@@ -0,0 +1,152 @@
+import { setSecrets } from '../redact';
+import { DEFAULT_PROXY_URL } from './proxy';
+import { PROVIDER_IDS } from './registry';
+import type { ProviderConfig, ProviderId } from './types';
+
+// A named set of credentials and defaults for one provider, e.g. "Personal"
+// or "Client billing". The active profile decides which provider is used.
+export interface CredentialProfile {
+  id: string;
+  name: string;
+  providerId: ProviderId;
+  config: ProviderConfig;
+}
+
+export interface ProviderSettings {
+  activeProfileId: string;
+  profiles: CredentialProfile[];
+}
+
+// API keys by profile ID, as held in the key vault
+export type ApiKeys = Record<string, string>;
+
+// Shape written by versions with a single configuration per provider
+interface LegacySettings {
+  providerId?: ProviderId;
+  configs?: Partial<Record<ProviderId, Partial<ProviderConfig>>>;
+}
+
+const STORAGE_KEY = 'provider-settings';
+// Written by versions that only supported Gemini
+const LEGACY_GEMINI_KEY = 'gemini_api_key';
+
+// Roughly the free-tier image quota; users on paid plans can raise it
+export const DEFAULT_REQUESTS_PER_MINUTE = 10;
+
+// Deployments built with VITE_PROXY_URL start out on the proxy
+const emptyConfig = (): ProviderConfig => ({
+  apiKey: '',
+  baseUrl: '',
+  model: '',
+  enhanceModel: '',
+  requestsPerMinute: DEFAULT_REQUESTS_PER_MINUTE,
+  useProxy: DEFAULT_PROXY_URL !== '',
+  proxyUrl: '',
+});
+
+// Default profiles use the provider ID as their ID, which keeps keys stored
+// per provider (plain settings and the vault) valid after the upgrade
+const defaultProfile = (providerId: ProviderId, config: Partial<ProviderConfig> = {}): CredentialProfile => ({
+  id: providerId,
+  name: 'Default',
+  providerId,
+  config: { ...emptyConfig(), ...config },
+});
+
+export const getActiveProfile = (settings: ProviderSettings): CredentialProfile =>
+  settings.profiles.find((profile) => profile.id === settings.activeProfileId) ?? settings.profiles[0];
+
+export const profilesFor = (settings: ProviderSettings, providerId: ProviderId) =>
+  settings.profiles.filter((profile) => profile.providerId === providerId);
+
+export const loadProviderSettings = (): ProviderSettings => {
+  let stored: Partial<ProviderSettings> & LegacySettings = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    // Corrupt settings: start from defaults
+  }
+
+  const profiles: CredentialProfile[] = Array.isArray(stored.profiles)
+    ? stored.profiles
+      .filter((profile) => PROVIDER_IDS.includes(profile.providerId))
+      .map((profile) => ({ ...profile, config: { ...emptyConfig(), ...profile.config } }))
+    : PROVIDER_IDS.map((id) => defaultProfile(id, stored.configs?.[id]));
+
+  // Every provider keeps at least one profile, so switching provider always lands on one
+  for (const id of PROVIDER_IDS) {
+    if (!profiles.some((profile) => profile.providerId === id)) profiles.push(defaultProfile(id));
+  }
+
+  const legacyGemini = profiles.find((profile) => profile.id === 'gemini');
+  if (legacyGemini && !legacyGemini.config.apiKey) {
+    legacyGemini.config.apiKey = localStorage.getItem(LEGACY_GEMINI_KEY) || '';
+  }
+
+  setSecrets(profiles.map((profile) => profile.config.apiKey));
+
+  // VITE_MOCK_PROVIDER starts every load on the offline mock, e.g. for end-to-end tests
+  const activeProfileId = import.meta.env.VITE_MOCK_PROVIDER === 'true'
+    ? 'mock'
+    : [stored.activeProfileId, stored.providerId].find((id) => profiles.some((profile) => profile.id === id)) ?? 'gemini';
+  return { activeProfileId, profiles };
+};
+
+// Switch provider, landing on its first profile
+export const selectProvider = (settings: ProviderSettings, providerId: ProviderId): ProviderSettings => ({
+  ...settings,
+  activeProfileId: profilesFor(settings, providerId)[0]?.id ?? settings.activeProfileId,
+});
+
+export const updateProfile = (
+  settings: ProviderSettings,
+  id: string,
+  patch: { name?: string; config?: Partial<ProviderConfig> },
+): ProviderSettings => ({
+  ...settings,
+  profiles: settings.profiles.map((profile) => (profile.id === id
+    ? { ...profile, name: patch.name ?? profile.name, config: { ...profile.config, ...patch.config } }
+    : profile)),
+});
+
+// Add a profile for the provider and make it active. It starts from the
+// current profile's model and endpoint settings, but without its key.
+export const addProfile = (settings: ProviderSettings, providerId: ProviderId, name: string): ProviderSettings => {
+  const template = profilesFor(settings, providerId).find((profile) => profile.id === settings.activeProfileId)
+    ?? profilesFor(settings, providerId)[0];
+  const profile: CredentialProfile = {
+    id: crypto.randomUUID(),
+    name,
+    providerId,
+    config: { ...emptyConfig(), ...template?.config, apiKey: '' },
+  };
+  return { activeProfileId: profile.id, profiles: [...settings.profiles, profile] };
+};
+
+// Remove a profile; the provider's last profile is kept
+export const removeProfile = (settings: ProviderSettings, id: string): ProviderSettings => {
+  const removed = settings.profiles.find((profile) => profile.id === id);
+  if (!removed || profilesFor(settings, removed.providerId).length <= 1) return settings;
+
+  const profiles = settings.profiles.filter((profile) => profile.id !== id);
+  const activeProfileId = settings.activeProfileId === id
+    ? profiles.find((profile) => profile.providerId === removed.providerId)?.id ?? profiles[0].id
+    : settings.activeProfileId;
+  return { activeProfileId, profiles };
+};
+
+export const apiKeysOf = (settings: ProviderSettings): ApiKeys =>
+  Object.fromEntries(settings.profiles.map((profile) => [profile.id, profile.config.apiKey]));
+
+// Replace every profile's key; profiles missing from `keys` end up with none
+export const withApiKeys = (settings: ProviderSettings, keys: ApiKeys): ProviderSettings => ({
+  ...settings,
+  profiles: settings.profiles.map((profile) => ({ ...profile, config: { ...profile.config, apiKey: keys[profile.id] ?? '' } })),
+});
+
+// With `persistKeys` false the keys are left out (vault and session-only modes)
+export const saveProviderSettings = (settings: ProviderSettings, persistKeys = true) => {
+  setSecrets(settings.profiles.map((profile) => profile.config.apiKey));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(persistKeys ? settings : withApiKeys(settings, {})));
+  localStorage.removeItem(LEGACY_GEMINI_KEY);
+};
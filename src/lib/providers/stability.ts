@@ -0,0 +1,76 @@
+import { base64ToBlob } from '../image';
+import { postForm, resolveBaseUrl } from './http';
+import { SafetyBlockError } from './errors';
+import type { OutputFormat } from './models';
+import type { ImageProvider, ImageRequest, ProviderConfig } from './types';
+
+const OUTPUT_FORMATS: Record<OutputFormat, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/webp': 'webp',
+};
+
+// Stability AI REST API (v2beta stable-image endpoints)
+
+interface StableImageResponse {
+  image?: string;
+  finish_reason?: string;
+}
+
+const send = async (path: string, form: FormData, request: ImageRequest, config: ProviderConfig) => {
+  const mimeType = request.outputFormat ?? 'image/png';
+  form.append('output_format', OUTPUT_FORMATS[mimeType]);
+  if (request.negativePrompt) form.append('negative_prompt', request.negativePrompt);
+  const response = await postForm<StableImageResponse>('stability', `${resolveBaseUrl(config, stabilityProvider.defaultBaseUrl)}${path}`, form, {
+    headers: { Authorization: `Bearer ${config.apiKey}`, Accept: 'application/json' },
+    signal: request.signal,
+  });
+
+  // The API doesn't say which category fired, so there are no ratings to show
+  if (response.finish_reason === 'CONTENT_FILTERED') {
+    throw new SafetyBlockError('stability', { source: 'response', reason: 'IMAGE_SAFETY', ratings: [] });
+  }
+  return { images: response.image ? [{ data: response.image, mimeType }] : [] };
+};
+
+export const stabilityProvider: ImageProvider = {
+  id: 'stability',
+  name: 'Stability AI',
+  requiresApiKey: true,
+  defaultBaseUrl: 'https://api.stability.ai',
+  defaultModel: 'sd3.5-large',
+  capabilities: {
+    textToImage: true,
+    imageToImage: true,
+    maxReferenceImages: 1,
+    masks: true,
+    conversation: false,
+    promptEnhancement: false,
+    safetySettings: false,
+    negativePrompt: true,
+  },
+  generate: (request, config) => {
+    const form = new FormData();
+    form.append('prompt', request.prompt);
+    form.append('model', config.model || stabilityProvider.defaultModel);
+    // Image to image keeps the input's shape, so the ratio only applies here
+    if (request.aspectRatio) form.append('aspect_ratio', request.aspectRatio);
+    return send('/v2beta/stable-image/generate/sd3', form, request, config);
+  },
+  edit: (request, config) => {
+    const [reference] = request.references;
+    const form = new FormData();
+    form.append('prompt', request.prompt);
+    form.append('image', base64ToBlob(reference.image), reference.image.name || 'image.png');
+
+    if (reference.mask) {
+      form.append('mask', base64ToBlob(reference.mask), 'mask.png');
+      return send('/v2beta/stable-image/edit/inpaint', form, request, config);
+    }
+
+    form.append('mode', 'image-to-image');
+    form.append('strength', '0.7');
+    form.append('model', config.model || stabilityProvider.defaultModel);
+    return send('/v2beta/stable-image/generate/sd3', form, request, config);
+  },
+};
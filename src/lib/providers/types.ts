@@ -0,0 +1,111 @@
+import type { ReferenceImage } from '../references';
+import type { SafetyThresholds } from '../safety';
+import type { SessionTurn } from '../session';
+import type { Base64Image } from '../types';
+import type { AspectRatio, OutputFormat } from './models';
+
+export type ProviderId = 'gemini' | 'openai' | 'stability' | 'automatic1111' | 'comfyui' | 'mock';
+
+// What a backend can do; the UI disables controls a provider does not support
+export interface ProviderCapabilities {
+  textToImage: boolean;
+  imageToImage: boolean;
+  maxReferenceImages: number;
+  masks: boolean;
+  // Multi-turn editing sessions with the conversation sent as history
+  conversation: boolean;
+  promptEnhancement: boolean;
+  // Per-category safety thresholds (Gemini's safetySettings)
+  safetySettings: boolean;
+  // A separate negative prompt; other providers get it folded into the prompt
+  negativePrompt: boolean;
+}
+
+export interface ProviderConfig {
+  apiKey: string;
+  // Empty means the provider's default
+  baseUrl: string;
+  model: string;
+  // Text model used for prompt enhancement
+  enhanceModel: string;
+  // Request budget shared by all queued jobs; 0 means unlimited
+  requestsPerMinute: number;
+  // Send requests through the team proxy (proxy/server.mjs) instead of the
+  // provider; `apiKey` then holds the proxy access token
+  useProxy: boolean;
+  // Empty means VITE_PROXY_URL
+  proxyUrl: string;
+}
+
+// Where a streamed response is: nothing back yet, text arriving, or an image
+// received and the response wrapping up
+export type GenerationStage = 'waiting' | 'writing' | 'finishing';
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  // Text the model has written so far
+  text?: string;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  references: ReferenceImage[];
+  // Earlier turns of an editing session, oldest first
+  history?: SessionTurn[];
+  // Only set when the model supports a choice; providers fall back to their defaults
+  aspectRatio?: AspectRatio;
+  outputFormat?: OutputFormat;
+  // Applied by providers with the safetySettings capability
+  safety?: SafetyThresholds;
+  // Only set for providers with the negativePrompt capability
+  negativePrompt?: string;
+  signal?: AbortSignal;
+  // Streaming providers report progress as the response arrives
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+// Token counts reported by the API for one call
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface ImageResult {
+  images: Base64Image[];
+  text?: string;
+  usage?: TokenUsage;
+}
+
+// A prompt rewrite by the text model, as set up by an enhancement strategy
+export interface EnhancementRequest {
+  prompt: string;
+  systemInstruction: string;
+  temperature: number;
+  maxOutputTokens: number;
+  signal?: AbortSignal;
+}
+
+export interface PromptEnhancement {
+  prompt: string;
+  usage?: TokenUsage;
+}
+
+export interface ImageProvider {
+  id: ProviderId;
+  name: string;
+  requiresApiKey: boolean;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  defaultEnhanceModel?: string;
+  // Can be reached through the team proxy
+  supportsProxy?: boolean;
+  // Runs in the browser without any network access (the mock provider)
+  offline?: boolean;
+  capabilities: ProviderCapabilities;
+  // Text to image
+  generate: (request: ImageRequest, config: ProviderConfig) => Promise<ImageResult>;
+  // Image to image, using the request's reference images (and masks)
+  edit: (request: ImageRequest, config: ProviderConfig) => Promise<ImageResult>;
+  enhancePrompt?: (request: EnhancementRequest, config: ProviderConfig) => Promise<PromptEnhancement>;
+}
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter, rateLimiterFor } from './rate-limit';
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lets requests through while the budget lasts', async () => {
+    const limiter = createRateLimiter();
+    const onWait = vi.fn();
+
+    for (let i = 0; i < 3; i++) await limiter.acquire(3, { onWait });
+
+    expect(onWait).not.toHaveBeenCalled();
+  });
+
+  it('never waits when unlimited', async () => {
+    const limiter = createRateLimiter();
+    const onWait = vi.fn();
+
+    for (let i = 0; i < 100; i++) await limiter.acquire(0, { onWait });
+
+    expect(onWait).not.toHaveBeenCalled();
+  });
+
+  it('waits for the oldest request to leave the one-minute window', async () => {
+    const limiter = createRateLimiter();
+    await limiter.acquire(2);
+    vi.setSystemTime(10_000);
+    await limiter.acquire(2);
+
+    const onWait = vi.fn();
+    let acquired = false;
+    const third = limiter.acquire(2, { onWait }).then(() => {
+      acquired = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onWait).toHaveBeenCalledWith(60_000);
+    await vi.advanceTimersByTimeAsync(49_999);
+    expect(acquired).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await third;
+    expect(acquired).toBe(true);
+  });
+
+  it('stops waiting when aborted', async () => {
+    const limiter = createRateLimiter();
+    await limiter.acquire(1);
+    const controller = new AbortController();
+
+    const waiting = limiter.acquire(1, { signal: controller.signal }).catch((error) => error);
+    controller.abort();
+
+    expect(await waiting).toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('rateLimiterFor', () => {
+  it('shares one limiter per key', () => {
+    expect(rateLimiterFor('profile-a')).toBe(rateLimiterFor('profile-a'));
+    expect(rateLimiterFor('profile-a')).not.toBe(rateLimiterFor('profile-b'));
+  });
+});
@@ -0,0 +1,50 @@
+import { sleep } from './retry';
+
+// Sliding-window request budget shared by every job that talks to the same
+// backend, so a long queue is spread out instead of tripping the API quota.
+
+const WINDOW_MS = 60_000;
+
+export interface AcquireOptions {
+  signal?: AbortSignal;
+  // Called with the time the next slot frees up whenever the caller has to wait
+  onWait?: (until: number) => void;
+}
+
+export interface RateLimiter {
+  // Resolves once a request may be sent; `perMinute` <= 0 means unlimited
+  acquire: (perMinute: number, options?: AcquireOptions) => Promise<void>;
+}
+
+export const createRateLimiter = (): RateLimiter => {
+  let sent: number[] = [];
+
+  const acquire = async (perMinute: number, { signal, onWait }: AcquireOptions = {}) => {
+    for (;;) {
+      const now = Date.now();
+      sent = sent.filter((time) => time > now - WINDOW_MS);
+      if (perMinute <= 0 || sent.length < perMinute) {
+        sent.push(now);
+        return;
+      }
+
+      // Wait for the oldest request in the window to age out, then re-check
+      const until = sent[sent.length - perMinute] + WINDOW_MS;
+      onWait?.(until);
+      await sleep(until - now, signal);
+    }
+  };
+
+  return { acquire };
+};
+
+const limiters = new Map<string, RateLimiter>();
+
+export const rateLimiterFor = (key: string): RateLimiter => {
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = createRateLimiter();
+    limiters.set(key, limiter);
+  }
+  return limiter;
+};
@@ -0,0 +1,55 @@
+// Keeps API keys out of error messages and console output. Configured keys are
+// registered as secrets; well-known key formats are masked even if unregistered.
+
+const MASK = '[REDACTED]';
+
+// Shorter values are too likely to match ordinary text
+const MIN_SECRET_LENGTH = 8;
+
+const KEY_PATTERNS: Array<[RegExp, string]> = [
+  // Google API keys
+  [/AIza[0-9A-Za-z_-]{35}/g, MASK],
+  // OpenAI / Stability style secret keys
+  [/\bsk-[A-Za-z0-9_-]{16,}/g, MASK],
+  // Keys passed as query parameters
+  [/([?&](?:key|api_key|apikey|access_token)=)[^&#\s"']+/gi, `$1${MASK}`],
+  // Authorization and API key headers echoed into messages
+  [/(Bearer\s+)[^\s"',]+/g, `$1${MASK}`],
+  [/(x-goog-api-key["']?\s*[:=]\s*["']?)[^\s"',]+/gi, `$1${MASK}`],
+  // Credentials embedded in URLs
+  [/(\/\/)[^/\s:@]+:[^/\s@]+@/g, `$1${MASK}@`],
+];
+
+let secrets: string[] = [];
+
+// Replace the set of known secrets, e.g. whenever provider settings change
+export const setSecrets = (values: string[]) => {
+  secrets = values.map((value) => value.trim()).filter((value) => value.length >= MIN_SECRET_LENGTH);
+};
+
+export const redact = (text: string): string => {
+  let result = text;
+  for (const secret of secrets) {
+    result = result.split(secret).join(MASK);
+  }
+  for (const [pattern, replacement] of KEY_PATTERNS) {
+    result = result.replace(pattern, replacement);
+  }
+  return result;
+};
+
+// A log-safe description of any thrown value, including API error details
+export const redactError = (error: unknown): string => {
+  if (!(error instanceof Error)) return redact(String(error));
+
+  const extra = error as Error & { status?: number; details?: unknown };
+  const parts = [`${error.name}: ${error.message}`];
+  if (extra.status) parts.push(`status ${extra.status}`);
+  if (extra.details) parts.push(JSON.stringify(extra.details));
+  return redact(parts.join(' | '));
+};
+
+// console.error for anything that may carry request details
+export const logError = (message: string, error: unknown) => {
+  console.error(message, redactError(error));
+};
@@ -0,0 +1,87 @@
+import { inlineDataPart, textPart, type Part } from './gemini';
+import type { PreprocessResult } from './preprocess';
+import type { Base64Image } from './types';
+
+export type ReferenceRole = 'reference' | 'subject' | 'style' | 'background';
+
+export const REFERENCE_ROLE_LABELS: Record<ReferenceRole, string> = {
+  reference: 'Reference',
+  subject: 'Subject',
+  style: 'Style reference',
+  background: 'Background',
+};
+
+// How each role is described to the model
+const ROLE_INSTRUCTIONS: Record<ReferenceRole, string> = {
+  reference: 'as a general reference',
+  subject: 'as the main subject',
+  style: 'as the style reference (match its artistic style, palette and lighting, not its content)',
+  background: 'as the background or setting',
+};
+
+export const MAX_REFERENCE_IMAGES = 4;
+
+export interface ReferenceImage {
+  id: string;
+  image: Base64Image;
+  role: ReferenceRole;
+  // Black/white PNG; white marks the only region the model should change
+  mask?: Base64Image;
+  // Size/dimension report when the upload was preprocessed
+  preprocess?: Omit<PreprocessResult, 'image'>;
+}
+
+export const createReference = (image: Base64Image, role: ReferenceRole = 'reference'): ReferenceImage => ({
+  id: crypto.randomUUID(),
+  image,
+  role,
+});
+
+// Request parts for a prompt plus its reference images. A single unlabelled,
+// unmasked reference is sent as-is; otherwise each image is preceded by a
+// numbered label (and followed by its mask, if any) and the prompt is
+// extended with what every image is for.
+export const buildReferenceParts = (prompt: string, references: ReferenceImage[]): Part[] => {
+  if (references.length === 0) return [textPart(prompt)];
+
+  if (references.length === 1 && references[0].role === 'reference' && !references[0].mask) {
+    const [{ image }] = references;
+    return [textPart(prompt), inlineDataPart(image.mimeType, image.data)];
+  }
+
+  const guidance = references
+    .map((reference, index) => {
+      const use = `Use image ${index + 1} ${ROLE_INSTRUCTIONS[reference.role]}.`;
+      return reference.mask
+        ? `${use} Only modify the area of image ${index + 1} that is white in its mask; keep every other pixel unchanged.`
+        : use;
+    })
+    .join(' ');
+
+  return [
+    textPart(`${prompt}\n\n${guidance}`),
+    ...references.flatMap((reference, index) => {
+      const parts: Part[] = [
+        textPart(`Image ${index + 1} (${REFERENCE_ROLE_LABELS[reference.role].toLowerCase()}):`),
+        inlineDataPart(reference.image.mimeType, reference.image.data),
+      ];
+      if (reference.mask) {
+        parts.push(
+          textPart(`Mask for image ${index + 1} (white = region to edit):`),
+          inlineDataPart(reference.mask.mimeType, reference.mask.data),
+        );
+      }
+      return parts;
+    }),
+  ];
+};
+
+export const moveReference = (references: ReferenceImage[], id: string, offset: -1 | 1): ReferenceImage[] => {
+  const from = references.findIndex((reference) => reference.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= references.length) return references;
+
+  const next = [...references];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+};
@@ -0,0 +1,150 @@
+import { requestToPromise, STORES, withStore } from './idb';
+import type { EnhancementRequest, ImageRequest, ProviderId } from './providers';
+import type { ReferenceImage } from './references';
+
+// Opt-in cache of API responses in IndexedDB, keyed by a SHA-256 hash of
+// everything that affects the output (model, prompt, image bytes, settings).
+// Entries are evicted least recently used first once the size limit is hit.
+
+export interface CacheSettings {
+  enabled: boolean;
+  maxMegabytes: number;
+}
+
+interface CacheEntry<T = unknown> {
+  key: string;
+  value: T;
+  // Approximate size of the stored value in bytes
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+const STORAGE_KEY = 'response-cache';
+
+export const CACHE_SIZE_OPTIONS = [50, 200, 500, 1000];
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = { enabled: false, maxMegabytes: 200 };
+
+export const loadCacheSettings = (): CacheSettings => {
+  try {
+    return { ...DEFAULT_CACHE_SETTINGS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_CACHE_SETTINGS;
+  }
+};
+
+export const saveCacheSettings = (settings: CacheSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Hex SHA-256 of the JSON form of `parts`; callers pass the same shape for
+// the same request, so key order is stable
+export const cacheKey = async (parts: unknown): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Only the bytes and settings that reach the model, not local ids or previews
+const referenceParts = (references: ReferenceImage[] = []) =>
+  references.map(({ image, role, mask }) => [image.mimeType, image.data, role, mask?.data ?? null]);
+
+// Key for one image call; `variation` keeps parallel variations apart, so
+// regenerating a set of variations returns the same set
+export const imageCacheKey = (provider: ProviderId, model: string, request: ImageRequest, variation: number) =>
+  cacheKey({
+    kind: 'image',
+    provider,
+    model,
+    prompt: request.prompt,
+    references: referenceParts(request.references),
+    history: request.history?.map((turn) =>
+      [turn.instruction, turn.image.mimeType, turn.image.data, referenceParts(turn.references)]) ?? null,
+    aspectRatio: request.aspectRatio ?? null,
+    outputFormat: request.outputFormat ?? null,
+    safety: request.safety ?? null,
+    negativePrompt: request.negativePrompt ?? null,
+    variation,
+  });
+
+export const enhanceCacheKey = (provider: ProviderId, model: string, request: EnhancementRequest) =>
+  cacheKey({
+    kind: 'enhance',
+    provider,
+    model,
+    prompt: request.prompt,
+    systemInstruction: request.systemInstruction,
+    temperature: request.temperature,
+    maxOutputTokens: request.maxOutputTokens,
+  });
+
+// The cached value, marking it as recently used
+export const getCached = <T>(key: string): Promise<T | undefined> =>
+  withStore(STORES.cache, 'readwrite', async (store) => {
+    const entry = await requestToPromise(store.get(key) as IDBRequest<CacheEntry<T> | undefined>);
+    if (!entry) return undefined;
+    await requestToPromise(store.put({ ...entry, lastUsedAt: Date.now() }));
+    return entry.value;
+  });
+
+// Calls `visit` with each entry's key and size, least recently used first.
+// A key cursor on the compound index reads sizes without loading the stored
+// images, which can add up to the whole cache budget.
+const walkSizes = (store: IDBObjectStore, visit: (key: IDBValidKey, size: number) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const cursorRequest = store.index('lastUsedAtSize').openKeyCursor();
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const [, size] = cursor.key as [number, number];
+      visit(cursor.primaryKey, size);
+      cursor.continue();
+    };
+  });
+
+// Drop least recently used entries until the total fits in `maxBytes`
+const evict = async (store: IDBObjectStore, maxBytes: number) => {
+  const entries: Array<{ key: IDBValidKey; size: number }> = [];
+  await walkSizes(store, (key, size) => entries.push({ key, size }));
+
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  for (const entry of entries) {
+    if (total <= maxBytes) break;
+    store.delete(entry.key);
+    total -= entry.size;
+  }
+};
+
+export const putCached = <T>(key: string, value: T, maxMegabytes: number): Promise<void> => {
+  // Base64 payloads dominate, and JSON length is close to their stored size
+  const size = JSON.stringify(value).length;
+  const now = Date.now();
+  return withStore(STORES.cache, 'readwrite', async (store) => {
+    await requestToPromise(store.put({ key, value, size, createdAt: now, lastUsedAt: now } satisfies CacheEntry<T>));
+    await evict(store, maxMegabytes * 1024 * 1024);
+  });
+};
+
+export const getCacheStats = (): Promise<CacheStats> =>
+  withStore(STORES.cache, 'readonly', async (store) => {
+    const stats: CacheStats = { entries: 0, bytes: 0 };
+    await walkSizes(store, (_key, size) => {
+      stats.entries++;
+      stats.bytes += size;
+    });
+    return stats;
+  });
+
+export const clearCache = (): Promise<void> =>
+  withStore(STORES.cache, 'readwrite', async (store) => {
+    await requestToPromise(store.clear());
+  });
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  backoffDelay,
+  isRetryableError,
+  parseRetryAfter,
+  RetryExhaustedError,
+  retryReason,
+  withRetry,
+} from './retry';
+
+// Same shape as GeminiError and ProviderError
+const httpError = (status: number, extra: { retryAfterMs?: number; network?: boolean } = {}) =>
+  Object.assign(new Error(`status ${status}`), { status, ...extra });
+
+describe('isRetryableError', () => {
+  it('retries transient HTTP statuses', () => {
+    for (const status of [408, 429, 500, 502, 503, 504]) expect(isRetryableError(httpError(status))).toBe(true);
+  });
+
+  it('does not retry client errors', () => {
+    for (const status of [400, 401, 403, 404]) expect(isRetryableError(httpError(status))).toBe(false);
+  });
+
+  it('retries network failures but not other errors without a status', () => {
+    expect(isRetryableError(httpError(0, { network: true }))).toBe(true);
+    expect(isRetryableError(httpError(0))).toBe(false);
+    expect(isRetryableError(new Error('boom'))).toBe(false);
+    expect(isRetryableError('boom')).toBe(false);
+  });
+});
+
+describe('retryReason', () => {
+  it('names rate limits, network errors and outages', () => {
+    expect(retryReason(httpError(429))).toBe('Rate limited');
+    expect(retryReason(httpError(0, { network: true }))).toBe('Network error');
+    expect(retryReason(httpError(503))).toBe('Service unavailable');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    vi.useFakeTimers({ now: Date.parse('2024-01-01T00:00:00Z') });
+    try {
+      expect(parseRetryAfter('30')).toBe(30_000);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT')).toBe(10_000);
+      expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT')).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('ignores missing or unparseable values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('backoffDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('picks a random delay up to the exponential cap', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(backoffDelay(1, 1000, 30_000)).toBe(500);
+    expect(backoffDelay(3, 1000, 30_000)).toBe(2000);
+  });
+
+  it('never exceeds the maximum delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999);
+    expect(backoffDelay(20, 1000, 30_000)).toBeLessThan(30_000);
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(20, 1000, 30_000)).toBe(0);
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries transient failures until one succeeds', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const fn = vi.fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(0, { network: true }))
+      .mockResolvedValue('ok');
+    const onRetry = vi.fn();
+
+    const result = withRetry(fn, { baseDelayMs: 100, onRetry });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([info]) => [info.attempt, info.delayMs])).toEqual([[1, 100], [2, 200]]);
+  });
+
+  it('waits as long as the server asks', async () => {
+    const fn = vi.fn().mockRejectedValueOnce(httpError(429, { retryAfterMs: 45_000 })).mockResolvedValue('ok');
+
+    const result = withRetry(fn, { maxDelayMs: 1000 });
+    await vi.advanceTimersByTimeAsync(44_999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('fails at once on errors that would fail again', async () => {
+    const error = httpError(400);
+    const fn = vi.fn().mockRejectedValue(error);
+
+    await expect(withRetry(fn)).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const fn = vi.fn().mockRejectedValue(httpError(503));
+
+    const result = withRetry(fn, { maxAttempts: 3, baseDelayMs: 10 }).catch((error) => error);
+    await vi.runAllTimersAsync();
+    const error = await result;
+
+    expect(error).toBeInstanceOf(RetryExhaustedError);
+    expect(error).toMatchObject({ attempts: 3, message: 'status 503 (gave up after 3 attempts)' });
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops waiting when aborted', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn().mockRejectedValue(httpError(503));
+
+    const result = withRetry(fn, { signal: controller.signal, baseDelayMs: 10_000 }).catch((error) => error);
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    expect(await result).toMatchObject({ name: 'AbortError' });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
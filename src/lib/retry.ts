@@ -0,0 +1,123 @@
+// Retry with exponential backoff for transient API failures (rate limits,
+// overloaded or flaky servers). Anything else fails on the first attempt.
+
+// Request timeout, rate limited, and server-side failures
+export const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+export interface RetryInfo {
+  // The attempt that just failed, starting at 1
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Shape shared by GeminiError and ProviderError; kept structural so the API
+// clients can use this module without an import cycle
+interface HttpError extends Error {
+  status: number;
+  retryAfterMs?: number;
+  // Set only when the server could not be reached (or the connection dropped)
+  network?: boolean;
+}
+
+const asHttpError = (error: unknown): HttpError | undefined =>
+  error instanceof Error && typeof (error as Partial<HttpError>).status === 'number' ? (error as HttpError) : undefined;
+
+const statusOf = (error: unknown) => asHttpError(error)?.status;
+
+const isNetworkError = (error: unknown) => asHttpError(error)?.network === true;
+
+// Network failures and transient HTTP statuses. Other errors without an HTTP
+// status (content filters, timeouts, bad workflows) would fail the same way again.
+export const isRetryableError = (error: unknown): boolean => {
+  const status = statusOf(error);
+  return isNetworkError(error) || (status !== undefined && RETRYABLE_STATUSES.includes(status));
+};
+
+export const isRateLimitError = (error: unknown) => statusOf(error) === 429;
+
+// Server-requested delay, if the error carries one
+export const retryAfterOf = (error: unknown): number | undefined => asHttpError(error)?.retryAfterMs;
+
+// Short label for why a request is being retried
+export const retryReason = (error: unknown) => {
+  const status = statusOf(error);
+  if (status === 429) return 'Rate limited';
+  if (isNetworkError(error)) return 'Network error';
+  return 'Service unavailable';
+};
+
+// Thrown once a retryable failure has used up every attempt
+export class RetryExhaustedError extends Error {
+  readonly attempts: number;
+  readonly lastError: unknown;
+
+  constructor(attempts: number, lastError: unknown) {
+    super(`${lastError instanceof Error ? lastError.message : String(lastError)} (gave up after ${attempts} attempts)`);
+    this.name = 'RetryExhaustedError';
+    this.attempts = attempts;
+    this.lastError = lastError;
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// "Full jitter": a random delay up to the exponential cap, so parallel
+// requests that failed together don't retry together
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const withRetry = async <T>(
+  fn: (attempt: number) => Promise<T>,
+  { signal, maxAttempts = 4, baseDelayMs = 1000, maxDelayMs = 30_000, onRetry }: RetryOptions = {},
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw error;
+      if (!isRetryableError(error)) throw error;
+      if (attempt >= maxAttempts) throw maxAttempts > 1 ? new RetryExhaustedError(attempt, error) : error;
+
+      // Honour the server's Retry-After even when it exceeds our own cap
+      const delayMs = retryAfterOf(error) ?? backoffDelay(attempt, baseDelayMs, maxDelayMs);
+      onRetry?.({ attempt, maxAttempts, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+};
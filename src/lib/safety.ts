@@ -0,0 +1,146 @@
+import type {
+  BlockReason,
+  FinishReason,
+  GenerateContentResponse,
+  HarmBlockThreshold,
+  HarmCategory,
+  HarmProbability,
+  SafetyRating,
+  SafetySetting,
+} from './gemini';
+
+// Per-category safety thresholds sent with generation requests, and the
+// helpers that explain a blocked response to the user.
+
+export const HARM_CATEGORY_LABELS: Record<HarmCategory, string> = {
+  HARM_CATEGORY_HARASSMENT: 'Harassment',
+  HARM_CATEGORY_HATE_SPEECH: 'Hate speech',
+  HARM_CATEGORY_SEXUALLY_EXPLICIT: 'Sexually explicit',
+  HARM_CATEGORY_DANGEROUS_CONTENT: 'Dangerous content',
+  HARM_CATEGORY_CIVIC_INTEGRITY: 'Civic integrity',
+};
+
+export const HARM_CATEGORIES = Object.keys(HARM_CATEGORY_LABELS) as HarmCategory[];
+
+// Unspecified leaves the category at the API's default
+export const THRESHOLD_LABELS: Record<HarmBlockThreshold, string> = {
+  HARM_BLOCK_THRESHOLD_UNSPECIFIED: 'Default',
+  BLOCK_LOW_AND_ABOVE: 'Block most',
+  BLOCK_MEDIUM_AND_ABOVE: 'Block some',
+  BLOCK_ONLY_HIGH: 'Block few',
+  BLOCK_NONE: 'Block none',
+  OFF: 'Off',
+};
+
+export const PROBABILITY_LABELS: Record<HarmProbability, string> = {
+  HARM_PROBABILITY_UNSPECIFIED: 'unknown',
+  NEGLIGIBLE: 'negligible',
+  LOW: 'low',
+  MEDIUM: 'medium',
+  HIGH: 'high',
+};
+
+// Categories missing from the map use the API default
+export type SafetyThresholds = Partial<Record<HarmCategory, HarmBlockThreshold>>;
+
+const STORAGE_KEY = 'safety-thresholds';
+
+export const loadSafetyThresholds = (): SafetyThresholds => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveSafetyThresholds = (thresholds: SafetyThresholds) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(thresholds));
+};
+
+export const toSafetySettings = (thresholds: SafetyThresholds = {}): SafetySetting[] =>
+  HARM_CATEGORIES
+    .filter((category) => (thresholds[category] ?? 'HARM_BLOCK_THRESHOLD_UNSPECIFIED') !== 'HARM_BLOCK_THRESHOLD_UNSPECIFIED')
+    .map((category) => ({ category, threshold: thresholds[category] as HarmBlockThreshold }));
+
+// Whether a threshold lets content of the given probability through
+export const allowsProbability = (threshold: HarmBlockThreshold | undefined, probability: HarmProbability) => {
+  switch (threshold) {
+    case 'OFF':
+    case 'BLOCK_NONE':
+      return true;
+    case 'BLOCK_ONLY_HIGH':
+      return probability !== 'HIGH';
+    case 'BLOCK_LOW_AND_ABOVE':
+      return probability === 'NEGLIGIBLE';
+    default:
+      return probability !== 'HIGH' && probability !== 'MEDIUM';
+  }
+};
+
+export interface SafetyBlock {
+  // The prompt was refused outright, or the model's output was withheld
+  source: 'prompt' | 'response';
+  reason: BlockReason | FinishReason;
+  // Categories that were blocked or rated medium or high, most likely first
+  ratings: SafetyRating[];
+}
+
+const BLOCKING_FINISH_REASONS: FinishReason[] = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+export const BLOCK_REASON_EXPLANATIONS: Partial<Record<BlockReason | FinishReason, string>> = {
+  SAFETY: 'A safety filter flagged it.',
+  IMAGE_SAFETY: 'The generated image was flagged by the image safety filter.',
+  PROHIBITED_CONTENT: 'It was flagged as prohibited content, which the safety settings cannot unblock.',
+  BLOCKLIST: 'It contains a term from a blocklist.',
+  SPII: 'It may contain sensitive personal information.',
+  RECITATION: 'The output too closely resembled existing material.',
+  OTHER: 'It was blocked for an unspecified reason.',
+};
+
+const PROBABILITY_ORDER: HarmProbability[] = ['HIGH', 'MEDIUM', 'LOW', 'NEGLIGIBLE', 'HARM_PROBABILITY_UNSPECIFIED'];
+
+const flaggedRatings = (ratings: SafetyRating[] = []) =>
+  ratings
+    .filter((rating) => rating.blocked || rating.probability === 'HIGH' || rating.probability === 'MEDIUM')
+    .sort((a, b) => Number(Boolean(b.blocked)) - Number(Boolean(a.blocked))
+      || PROBABILITY_ORDER.indexOf(a.probability) - PROBABILITY_ORDER.indexOf(b.probability));
+
+// The block behind a response without output, if there was one
+export const safetyBlockFrom = (response: GenerateContentResponse): SafetyBlock | undefined => {
+  const feedback = response.promptFeedback;
+  if (feedback?.blockReason) {
+    return { source: 'prompt', reason: feedback.blockReason, ratings: flaggedRatings(feedback.safetyRatings) };
+  }
+
+  const candidate = response.candidates?.[0];
+  if (candidate?.finishReason && BLOCKING_FINISH_REASONS.includes(candidate.finishReason)) {
+    return { source: 'response', reason: candidate.finishReason, ratings: flaggedRatings(candidate.safetyRatings) };
+  }
+  return undefined;
+};
+
+export const describeSafetyBlock = (block: SafetyBlock) => {
+  const subject = block.source === 'prompt' ? 'The prompt was blocked' : 'The response was blocked';
+  const categories = block.ratings.map((rating) => HARM_CATEGORY_LABELS[rating.category]).join(', ');
+  return categories ? `${subject} by safety filters (${categories})` : `${subject} by safety filters`;
+};
+
+// Word stems that commonly trip each category. The API doesn't say which
+// words fired, so this is only a hint at what to rephrase.
+const CATEGORY_KEYWORDS: Record<HarmCategory, string[]> = {
+  HARM_CATEGORY_HARASSMENT: ['idiot', 'stupid', 'ugly', 'loser', 'humiliat', 'bully', 'insult', 'threat'],
+  HARM_CATEGORY_HATE_SPEECH: ['racis', 'nazi', 'slur', 'supremac', 'inferior', 'hate', 'genocid'],
+  HARM_CATEGORY_SEXUALLY_EXPLICIT: ['nude', 'naked', 'sex', 'erotic', 'nsfw', 'topless', 'lingerie', 'porn', 'explicit', 'seductive'],
+  HARM_CATEGORY_DANGEROUS_CONTENT: ['weapon', 'gun', 'bomb', 'explosi', 'drug', 'poison', 'blood', 'gore', 'kill', 'knife', 'murder', 'suicid', 'violen', 'corpse'],
+  HARM_CATEGORY_CIVIC_INTEGRITY: ['election', 'vote', 'ballot', 'president', 'politic', 'candidate', 'campaign', 'senator'],
+};
+
+// Words of the prompt that match the flagged categories (or any category
+// when none was reported), in prompt order
+export const findSuspectTerms = (prompt: string, block: SafetyBlock): string[] => {
+  const categories = block.ratings.length > 0 ? block.ratings.map((rating) => rating.category) : HARM_CATEGORIES;
+  const stems = categories.flatMap((category) => CATEGORY_KEYWORDS[category]);
+  const words = prompt.match(/[\p{L}\p{N}'-]+/gu) ?? [];
+  const matches = words.filter((word) => stems.some((stem) => word.toLowerCase().startsWith(stem)));
+  return Array.from(new Set(matches));
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { ReferenceImage } from './references';
+import { buildSessionContents, newReferences, pathTo, type EditSession, type SessionTurn } from './session';
+
+const reference = (id: string): ReferenceImage => ({ id, image: { mimeType: 'image/png', data: `ref-${id}` }, role: 'reference' });
+
+const turn = (id: string, parentId: string | null, references?: ReferenceImage[]): SessionTurn => ({
+  id,
+  parentId,
+  instruction: `instruction ${id}`,
+  references,
+  image: { mimeType: 'image/png', data: `image-${id}` },
+  createdAt: 0,
+});
+
+describe('pathTo', () => {
+  it('walks from the root to the given turn', () => {
+    const session: EditSession = {
+      turns: { a: turn('a', null), b: turn('b', 'a'), c: turn('c', 'a'), d: turn('d', 'c') },
+      headId: 'd',
+    };
+    expect(pathTo(session, 'd').map(({ id }) => id)).toEqual(['a', 'c', 'd']);
+    expect(pathTo(session, null)).toEqual([]);
+  });
+});
+
+describe('newReferences', () => {
+  it('leaves out references already sent in the conversation', () => {
+    const history = [turn('a', null, [reference('1')]), turn('b', 'a')];
+    expect(newReferences(history, [reference('1'), reference('2')]).map(({ id }) => id)).toEqual(['2']);
+  });
+});
+
+describe('buildSessionContents', () => {
+  it('sends every earlier turn as a user/model pair', () => {
+    const contents = buildSessionContents([turn('a', null, [reference('1')])], 'make it blue', [reference('1')]);
+
+    expect(contents).toEqual([
+      { role: 'user', parts: [{ text: 'instruction a' }, { inlineData: { mimeType: 'image/png', data: 'ref-1' } }] },
+      { role: 'model', parts: [{ inlineData: { mimeType: 'image/png', data: 'image-a' } }] },
+      { role: 'user', parts: [{ text: 'make it blue' }] },
+    ]);
+  });
+
+  it('sends references added mid-session with the new instruction', () => {
+    const contents = buildSessionContents([turn('a', null, [reference('1')])], 'add this hat', [reference('1'), reference('2')]);
+
+    expect(contents[contents.length - 1]).toEqual({
+      role: 'user',
+      parts: [{ text: 'add this hat' }, { inlineData: { mimeType: 'image/png', data: 'ref-2' } }],
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { inlineDataPart, textPart, type Content, type Part } from './gemini';
+import { buildReferenceParts, type ReferenceImage } from './references';
+import type { Base64Image } from './types';
+
+// A conversational editing session is a tree of turns. Each turn is one user
+// instruction and the image the model answered with; the active branch is the
+// path from the root to `headId`.
+
+export interface SessionTurn {
+  id: string;
+  parentId: string | null;
+  instruction: string;
+  // Reference images first sent with this turn
+  references?: ReferenceImage[];
+  image: Base64Image;
+  text?: string;
+  createdAt: number;
+}
+
+export interface EditSession {
+  turns: Record<string, SessionTurn>;
+  headId: string | null;
+}
+
+export const emptySession = (): EditSession => ({ turns: {}, headId: null });
+
+// Turns from the root down to (and including) `turnId`
+export const pathTo = (session: EditSession, turnId: string | null): SessionTurn[] => {
+  const path: SessionTurn[] = [];
+  let current = turnId ? session.turns[turnId] : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? session.turns[current.parentId] : undefined;
+  }
+  return path;
+};
+
+export const childrenOf = (session: EditSession, parentId: string | null): SessionTurn[] =>
+  Object.values(session.turns)
+    .filter((turn) => turn.parentId === parentId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+// Depth-first listing of every turn, for rendering the timeline
+export const flattenTurns = (session: EditSession): Array<{ turn: SessionTurn; depth: number }> => {
+  const rows: Array<{ turn: SessionTurn; depth: number }> = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const turn of childrenOf(session, parentId)) {
+      rows.push({ turn, depth });
+      visit(turn.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return rows;
+};
+
+// References not yet sent in the conversation. Attached references stay in
+// the UI for the whole session, so only ones added since go with a new turn.
+export const newReferences = (history: SessionTurn[], references: ReferenceImage[]): ReferenceImage[] => {
+  const sent = new Set(history.flatMap((turn) => turn.references ?? []).map((reference) => reference.id));
+  return references.filter((reference) => !sent.has(reference.id));
+};
+
+// Conversation history for the next request: every earlier turn as a
+// user/model pair, followed by the new instruction with any new references
+export const buildSessionContents = (
+  history: SessionTurn[],
+  instruction: string,
+  references: ReferenceImage[] = [],
+): Content[] => {
+  const contents: Content[] = [];
+
+  for (const turn of history) {
+    contents.push({ role: 'user', parts: buildReferenceParts(turn.instruction, turn.references ?? []) });
+
+    const modelParts: Part[] = [];
+    if (turn.text) modelParts.push(textPart(turn.text));
+    modelParts.push(inlineDataPart(turn.image.mimeType, turn.image.data));
+    contents.push({ role: 'model', parts: modelParts });
+  }
+
+  contents.push({ role: 'user', parts: buildReferenceParts(instruction, newReferences(history, references)) });
+
+  return contents;
+};
@@ -0,0 +1,148 @@
+import { base64ToBlob, toDataUrl } from './image';
+import { preprocessImage } from './preprocess';
+import type { Base64Image } from './types';
+
+// Named styles that wrap the user's prompt in a prefix and suffix, plus
+// things to avoid. Several can be combined; they apply in the order picked.
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  prefix: string;
+  suffix: string;
+  // Things the image should not contain
+  negative: string;
+  // Small data URL shown in the preset grid
+  thumbnail?: string;
+}
+
+export interface StyledPrompt {
+  prompt: string;
+  // Set when the provider takes a separate negative prompt
+  negativePrompt?: string;
+}
+
+const STORAGE_KEY = 'style-presets';
+const SELECTED_KEY = 'selected-style-presets';
+
+export const THUMBNAIL_SIZE = 128;
+
+// Downscaled JPEG data URL for the preset grid, from an upload or a generated image
+export const createThumbnail = async (source: File | Base64Image): Promise<string> => {
+  const file = source instanceof File ? source : new File([base64ToBlob(source)], 'thumbnail', { type: source.mimeType });
+  const { image } = await preprocessImage(file, { enabled: true, maxDimension: THUMBNAIL_SIZE, format: 'image/jpeg', quality: 0.8 });
+  return toDataUrl(image);
+};
+
+export const STARTER_PRESETS: StylePreset[] = [
+  {
+    id: 'starter-cinematic',
+    name: 'Cinematic',
+    prefix: 'Cinematic film still of',
+    suffix: 'cinematic lighting, 35mm, film grain, shallow depth of field',
+    negative: 'cartoon, illustration, oversaturated colors',
+  },
+  {
+    id: 'starter-studio-photo',
+    name: 'Studio photo',
+    prefix: 'Professional studio photograph of',
+    suffix: 'softbox lighting, seamless backdrop, sharp focus, 85mm',
+    negative: 'clutter, harsh shadows, blur',
+  },
+  {
+    id: 'starter-watercolor',
+    name: 'Watercolor',
+    prefix: 'Watercolor painting of',
+    suffix: 'loose brush strokes, soft washes, paper texture',
+    negative: 'photorealistic, hard edges',
+  },
+  {
+    id: 'starter-anime',
+    name: 'Anime',
+    prefix: 'Anime illustration of',
+    suffix: 'cel shading, vibrant colors, clean line art',
+    negative: 'photorealistic, 3d render',
+  },
+  {
+    id: 'starter-3d-render',
+    name: '3D render',
+    prefix: '3D render of',
+    suffix: 'octane render, global illumination, smooth materials',
+    negative: 'flat, sketch, noise',
+  },
+  {
+    id: 'starter-pixel-art',
+    name: 'Pixel art',
+    prefix: 'Pixel art of',
+    suffix: '16-bit, limited palette, crisp pixels',
+    negative: 'blur, anti-aliasing, gradients',
+  },
+  {
+    id: 'starter-golden-hour',
+    name: 'Golden hour',
+    prefix: '',
+    suffix: 'golden hour sunlight, warm tones, long soft shadows',
+    negative: '',
+  },
+  {
+    id: 'starter-minimal',
+    name: 'Minimalist',
+    prefix: 'Minimalist',
+    suffix: 'simple composition, lots of negative space, muted palette',
+    negative: 'busy background, clutter, text',
+  },
+];
+
+export const loadStylePresets = (): StylePreset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : STARTER_PRESETS;
+  } catch {
+    return STARTER_PRESETS;
+  }
+};
+
+export const saveStylePresets = (presets: StylePreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+export const loadSelectedPresetIds = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(SELECTED_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const saveSelectedPresetIds = (ids: string[]) => {
+  localStorage.setItem(SELECTED_KEY, JSON.stringify(ids));
+};
+
+export const createStylePreset = (): StylePreset => ({
+  id: crypto.randomUUID(),
+  name: '',
+  prefix: '',
+  suffix: '',
+  negative: '',
+});
+
+const joinParts = (parts: string[], separator: string) =>
+  parts.map((part) => part.trim()).filter(Boolean).join(separator);
+
+// The prompt with the presets' prefixes before it and suffixes after it.
+// Negative guidance goes in `negativePrompt` when the provider takes one,
+// otherwise it is appended to the prompt as an instruction.
+export const applyStylePresets = (prompt: string, presets: StylePreset[], separateNegative: boolean): StyledPrompt => {
+  if (presets.length === 0) return { prompt };
+
+  const prefix = joinParts(presets.map((preset) => preset.prefix), ' ');
+  const suffix = joinParts(presets.map((preset) => preset.suffix), ', ');
+  const negative = joinParts(presets.map((preset) => preset.negative), ', ');
+
+  let styled = joinParts([prefix, prompt], ' ');
+  if (suffix) styled = `${styled.replace(/[\s.,;]+$/, '')}, ${suffix}`;
+
+  if (!negative) return { prompt: styled };
+  if (separateNegative) return { prompt: styled, negativePrompt: negative };
+  return { prompt: `${styled}. Avoid: ${negative}.` };
+};
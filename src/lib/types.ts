@@ -0,0 +1,54 @@
+import type { EnhancementStrategy } from './enhancement-strategies';
+import type { AspectRatio, OutputFormat } from './providers';
+import type { ReferenceImage } from './references';
+import type { SafetyThresholds } from './safety';
+
+// Shared app-level types
+
+export type GenerationMode = 'text-to-image' | 'image-to-image';
+
+// A base64-encoded image as held in state and sent to the API
+export interface Base64Image {
+  data: string;
+  mimeType: string;
+  name?: string;
+}
+
+// One generated image plus any text the model returned alongside it
+export interface GenerationResult {
+  image: Base64Image;
+  text?: string;
+  // Editing session turn this result was recorded as, if any
+  turnId?: string;
+  // Served from the response cache rather than a new API call
+  cached?: boolean;
+  // Response cache key, when the cache was used
+  cacheKey?: string;
+}
+
+// How a job uses the response cache: reuse a stored response when there is
+// one, or always call the API and overwrite what is stored
+export type CacheMode = 'reuse' | 'refresh';
+
+// Snapshot of the editor taken when a generation is queued
+export interface GenerationJobInput {
+  prompt: string;
+  // The prompt wrapped in the selected style presets, when any were selected
+  styledPrompt?: string;
+  negativePrompt?: string;
+  mode: GenerationMode;
+  references: ReferenceImage[];
+  variationCount: number;
+  autoEnhance: boolean;
+  // Copied when queued, so later edits to the strategy don't change the job
+  enhancementStrategy?: EnhancementStrategy;
+  reviewEnhanced: boolean;
+  session: boolean;
+  // Credential profile the job was queued with
+  profileId: string;
+  aspectRatio?: AspectRatio;
+  outputFormat?: OutputFormat;
+  safety?: SafetyThresholds;
+  // Unset when the response cache is off
+  cache?: CacheMode;
+}
@@ -0,0 +1,39 @@
+import { requestToPromise, STORES, withStore } from './idb';
+import type { ProviderId, TokenUsage } from './providers';
+
+// One record per successful API call, kept in IndexedDB for the usage dialog.
+// Costs are worked out when displayed, so price changes apply to old records.
+
+export type UsageKind = 'generate' | 'enhance';
+
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  createdAt: number;
+  kind: UsageKind;
+  provider: ProviderId;
+  profileId: string;
+  model: string;
+  images: number;
+}
+
+export type NewUsageRecord = Omit<UsageRecord, 'id' | 'createdAt' | keyof TokenUsage> & { usage?: TokenUsage };
+
+const NO_TOKENS: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+export const addUsageRecord = ({ usage, ...entry }: NewUsageRecord): Promise<UsageRecord> => {
+  const record: UsageRecord = { ...NO_TOKENS, ...usage, ...entry, id: crypto.randomUUID(), createdAt: Date.now() };
+  return withStore(STORES.usage, 'readwrite', async (store) => {
+    await requestToPromise(store.add(record));
+    return record;
+  });
+};
+
+// Oldest first, optionally only records since a timestamp
+export const listUsageRecords = (since = 0): Promise<UsageRecord[]> =>
+  withStore(STORES.usage, 'readonly', (store) =>
+    requestToPromise(store.index('createdAt').getAll(IDBKeyRange.lowerBound(since)) as IDBRequest<UsageRecord[]>));
+
+export const clearUsageRecords = (): Promise<void> =>
+  withStore(STORES.usage, 'readwrite', async (store) => {
+    await requestToPromise(store.clear());
+  });
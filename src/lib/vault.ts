@@ -0,0 +1,123 @@
+// Passphrase-encrypted storage for API keys. A key is derived from the
+// passphrase with PBKDF2 (SHA-256) and the secrets are sealed with AES-GCM;
+// only the salt, IV and ciphertext are written to localStorage.
+
+export type KeyStorageMode = 'local' | 'vault' | 'session';
+
+export const KEY_STORAGE_MODE_LABELS: Record<KeyStorageMode, string> = {
+  local: 'Remember on this device (unencrypted)',
+  vault: 'Encrypted vault (passphrase)',
+  session: 'This session only (never saved)',
+};
+
+export const AUTO_LOCK_OPTIONS = [5, 15, 30, 60];
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const MODE_KEY = 'key-storage-mode';
+const VAULT_KEY = 'key-vault';
+const AUTO_LOCK_KEY = 'vault-auto-lock-minutes';
+
+// OWASP's current recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600_000;
+
+interface VaultRecord {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+// An unlocked vault: the derived key stays in memory so edits can be
+// re-encrypted without asking for the passphrase again
+export interface VaultKey {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+}
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+export const loadKeyStorageMode = (): KeyStorageMode => {
+  const mode = localStorage.getItem(MODE_KEY);
+  return mode === 'vault' || mode === 'session' ? mode : 'local';
+};
+
+export const saveKeyStorageMode = (mode: KeyStorageMode) => localStorage.setItem(MODE_KEY, mode);
+
+export const loadAutoLockMinutes = () => Number(localStorage.getItem(AUTO_LOCK_KEY)) || DEFAULT_AUTO_LOCK_MINUTES;
+
+export const saveAutoLockMinutes = (minutes: number) => localStorage.setItem(AUTO_LOCK_KEY, minutes.toString());
+
+const loadRecord = (): VaultRecord | null => {
+  try {
+    const record = JSON.parse(localStorage.getItem(VAULT_KEY) || 'null');
+    return record?.version === 1 ? record : null;
+  } catch {
+    return null;
+  }
+};
+
+export const hasVault = () => loadRecord() !== null;
+
+export const deleteVault = () => localStorage.removeItem(VAULT_KEY);
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<VaultKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+  return { key, salt, iterations };
+};
+
+// Create a vault key from a new passphrase (with a fresh salt)
+export const createVaultKey = (passphrase: string): Promise<VaultKey> =>
+  deriveKey(passphrase, crypto.getRandomValues(new Uint8Array(16)), PBKDF2_ITERATIONS);
+
+// Encrypt and store secrets; every write uses a fresh IV
+export const writeVault = async (vaultKey: VaultKey, secrets: unknown): Promise<void> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    vaultKey.key,
+    new TextEncoder().encode(JSON.stringify(secrets)),
+  );
+  const record: VaultRecord = {
+    version: 1,
+    iterations: vaultKey.iterations,
+    salt: toBase64(vaultKey.salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+  localStorage.setItem(VAULT_KEY, JSON.stringify(record));
+};
+
+// Decrypt the stored vault. AES-GCM authenticates the data, so a wrong
+// passphrase fails here rather than producing garbage.
+export const unlockVault = async <T>(passphrase: string): Promise<{ vaultKey: VaultKey; secrets: T }> => {
+  const record = loadRecord();
+  if (!record) throw new VaultError('No vault has been set up');
+
+  const vaultKey = await deriveKey(passphrase, fromBase64(record.salt), record.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(record.iv) }, vaultKey.key, fromBase64(record.ciphertext));
+  } catch {
+    throw new VaultError('Wrong passphrase');
+  }
+  return { vaultKey, secrets: JSON.parse(new TextDecoder().decode(plaintext)) as T };
+};
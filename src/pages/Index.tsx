@@ -1,25 +1,191 @@
 
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Upload, Image as ImageIcon, Wand2, Download, Key, Loader2, AlertCircle, CheckCircle, Moon, Sun, Sparkles } from 'lucide-react';
+import { Upload, Image as ImageIcon, Wand2, Download, Loader2, AlertCircle, CheckCircle, Moon, Sun, Clock, Sparkles, Repeat, MessagesSquare, ListPlus, BarChart3, RefreshCw, BookOpen, Settings2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import HistoryPanel from '@/components/HistoryPanel';
+import VariationGrid from '@/components/VariationGrid';
+import GenerationDetails from '@/components/GenerationDetails';
+import PromptReviewDialog from '@/components/PromptReviewDialog';
+import PromptTemplateLibrary from '@/components/PromptTemplateLibrary';
+import SessionTimeline from '@/components/SessionTimeline';
+import PreprocessSettings from '@/components/PreprocessSettings';
+import QueuePanel from '@/components/QueuePanel';
+import LiveGeneration from '@/components/LiveGeneration';
+import SafetySettings from '@/components/SafetySettings';
+import SafetyBlockAlert from '@/components/SafetyBlockAlert';
+import StylePresetGrid from '@/components/StylePresetGrid';
+import StylePresetEditor from '@/components/StylePresetEditor';
+import Countdown from '@/components/Countdown';
+import ReferenceImageList from '@/components/ReferenceImageList';
+import ProviderConfigCard from '@/components/ProviderConfigCard';
+import ProfileSwitcher from '@/components/ProfileSwitcher';
+import KeyStorageSettings from '@/components/KeyStorageSettings';
+import EnhancementStrategyEditor from '@/components/EnhancementStrategyEditor';
+import ResponseCacheSettings from '@/components/ResponseCacheSettings';
+import VaultUnlockDialog from '@/components/VaultUnlockDialog';
+import UsageDialog from '@/components/UsageDialog';
+import { useEditSession } from '@/hooks/use-edit-session';
+import { useKeyVault } from '@/hooks/use-key-vault';
+import { useJobQueue } from '@/hooks/use-job-queue';
+import { useGenerationHistory } from '@/hooks/use-generation-history';
+import { toast } from '@/hooks/use-toast';
+import {
+  enhancementParams,
+  loadEnhancementStrategies,
+  loadSelectedStrategyId,
+  resolveStrategy,
+  sanitizeEnhancedPrompt,
+  saveEnhancementStrategies,
+  saveSelectedStrategyId,
+  STARTER_STRATEGIES,
+  type EnhancementStrategy,
+} from '@/lib/enhancement-strategies';
+import { historyReferences, type HistoryEntry } from '@/lib/history';
+import { isJobFinished, type JobContext, type JobExecutor } from '@/lib/job-queue';
+import {
+  downloadImage,
+  extensionForMimeType,
+  fileToBase64Image,
+  formatBytes,
+  MAX_IMAGE_BYTES,
+  SUPPORTED_IMAGE_TYPES,
+  toDataUrl,
+  withExtension,
+} from '@/lib/image';
+import {
+  loadPreprocessOptions,
+  MAX_PREPROCESS_INPUT_BYTES,
+  preprocessImage,
+  savePreprocessOptions,
+} from '@/lib/preprocess';
+import {
+  apiKeysOf,
+  getActiveProfile,
+  getProvider,
+  isSafetyBlockError,
+  loadProviderSettings,
+  needsApiKey,
+  ProviderError,
+  resolveImageModel,
+  saveProviderSettings,
+  withApiKeys,
+  type ApiKeys,
+  type AspectRatio,
+  type GenerationProgress,
+  type GenerationStage,
+  type ImageResult,
+  type OutputFormat,
+  type TokenUsage,
+} from '@/lib/providers';
+import { loadPromptTemplates, savePromptTemplates } from '@/lib/prompt-templates';
+import { addUsage, loadProfileUsage, resetUsage, saveProfileUsage } from '@/lib/profile-usage';
+import { rateLimiterFor } from '@/lib/rate-limit';
+import { logError } from '@/lib/redact';
+import { createReference, MAX_REFERENCE_IMAGES, type ReferenceImage } from '@/lib/references';
+import {
+  enhanceCacheKey,
+  getCached,
+  imageCacheKey,
+  loadCacheSettings,
+  putCached,
+  saveCacheSettings,
+} from '@/lib/response-cache';
+import { retryReason, withRetry } from '@/lib/retry';
+import { loadSafetyThresholds, saveSafetyThresholds, type SafetyBlock } from '@/lib/safety';
+import { newReferences, pathTo, type SessionTurn } from '@/lib/session';
+import {
+  applyStylePresets,
+  loadSelectedPresetIds,
+  loadStylePresets,
+  saveSelectedPresetIds,
+  saveStylePresets,
+} from '@/lib/style-presets';
+import type { CacheMode, GenerationJobInput, GenerationMode, GenerationResult } from '@/lib/types';
+import { addUsageRecord, type UsageKind } from '@/lib/usage-log';
+
+const VARIATION_OPTIONS = [1, 2, 3, 4];
+
+// Job messages while a streamed response arrives
+const STAGE_MESSAGES: Record<GenerationStage, string> = {
+  waiting: 'Waiting for the model...',
+  writing: 'Receiving response...',
+  finishing: 'Image received, finishing up...',
+};
 
 const Index = () => {
-  const [apiKey, setApiKey] = useState(() => localStorage.getItem('gemini_api_key') || '');
+  const [providerSettings, setProviderSettings] = useState(loadProviderSettings);
+  const keyVault = useKeyVault<ApiKeys>({
+    onUnlock: (keys) => setProviderSettings((current) => withApiKeys(current, keys)),
+    onLock: () => setProviderSettings((current) => withApiKeys(current, {})),
+  });
+  // Ask for the passphrase on load when keys are in a locked vault
+  const [showUnlock, setShowUnlock] = useState(() => keyVault.canUnlock);
+  const [profileUsage, setProfileUsage] = useState(loadProfileUsage);
   const [prompt, setPrompt] = useState('');
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-  const [uploadedImageName, setUploadedImageName] = useState('');
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const [promptTemplates, setPromptTemplates] = useState(loadPromptTemplates);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [stylePresets, setStylePresets] = useState(loadStylePresets);
+  const [selectedPresetIds, setSelectedPresetIds] = useState(loadSelectedPresetIds);
+  const [showPresetEditor, setShowPresetEditor] = useState(false);
+  const [enhancementStrategies, setEnhancementStrategies] = useState(loadEnhancementStrategies);
+  const [selectedStrategyId, setSelectedStrategyId] = useState(loadSelectedStrategyId);
+  const [showStrategyEditor, setShowStrategyEditor] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [referenceImages, setReferenceImages] = useState<ReferenceImage[]>([]);
+  const [preprocessOptions, setPreprocessOptions] = useState(loadPreprocessOptions);
+  const [results, setResults] = useState<GenerationResult[]>([]);
+  const [lastPrompts, setLastPrompts] = useState<{ original: string; final: string } | null>(null);
+  const [selectedImageIndex, setSelectedImageIndex] = useState(0);
+  const [variationCount, setVariationCount] = useState(() => Number(localStorage.getItem('variation-count')) || 1);
+  const [aspectRatio, setAspectRatio] = useState(() => (localStorage.getItem('aspect-ratio') || '1:1') as AspectRatio);
+  const [outputFormat, setOutputFormat] = useState(() => (localStorage.getItem('output-format') || 'image/png') as OutputFormat);
+  const [safetyThresholds, setSafetyThresholds] = useState(loadSafetyThresholds);
+  const [cacheSettings, setCacheSettings] = useState(loadCacheSettings);
+  // Explanation for the last generation the safety filters stopped
+  const [safetyBlock, setSafetyBlock] = useState<{ prompt: string; block: SafetyBlock } | null>(null);
   const [status, setStatus] = useState<{ type: 'success' | 'error' | 'info' | null; message: string }>({ type: null, message: '' });
-  const [mode, setMode] = useState<'text-to-image' | 'image-to-image'>('text-to-image');
+  const [mode, setMode] = useState<GenerationMode>('text-to-image');
   const [isDarkMode, setIsDarkMode] = useState(() => localStorage.getItem('dark-mode') === 'true');
   const [autoEnhancePrompt, setAutoEnhancePrompt] = useState(() => localStorage.getItem('auto-enhance') === 'true');
-  const [isEnhancing, setIsEnhancing] = useState(false);
+  const [reviewEnhancedPrompt, setReviewEnhancedPrompt] = useState(() => localStorage.getItem('review-enhanced') === 'true');
+  const [promptReview, setPromptReview] = useState<{
+    original: string;
+    enhanced: string;
+    resolve: (prompt: string | null) => void;
+  } | null>(null);
+  const history = useGenerationHistory();
+  const editSession = useEditSession();
+  const [sessionEnabled, setSessionEnabled] = useState(() => localStorage.getItem('edit-session') === 'true');
+  const selectedResult = results[selectedImageIndex];
+  const generatedImage = selectedResult?.image ?? null;
+  const activeProfile = getActiveProfile(providerSettings);
+  const provider = getProvider(activeProfile.providerId);
+  const providerConfig = activeProfile.config;
+  const { capabilities } = provider;
+  const imageModel = resolveImageModel(provider, providerConfig.model);
+  const supportsImageToImage = imageModel.modes.includes('image-to-image');
+  const hasCredentials = !needsApiKey(provider, providerConfig) || providerConfig.apiKey.trim() !== '';
+  // In the order picked; ids of deleted presets are skipped
+  const selectedPresets = selectedPresetIds.flatMap((id) => stylePresets.filter((preset) => preset.id === id));
+  const styled = selectedPresets.length > 0 && prompt.trim()
+    ? applyStylePresets(prompt, selectedPresets, capabilities.negativePrompt)
+    : null;
+  const maxReferences = Math.min(MAX_REFERENCE_IMAGES, imageModel.maxInputImages);
+  // Keep the stored choice, but use the model's default when it isn't supported
+  const activeAspectRatio = imageModel.aspectRatios.includes(aspectRatio) ? aspectRatio : imageModel.aspectRatios[0];
+  const activeOutputFormat = imageModel.outputFormats.includes(outputFormat) ? outputFormat : imageModel.outputFormats[0];
+  // Preferences stay stored but are ignored while the provider can't honour them
+  const autoEnhanceActive = autoEnhancePrompt && capabilities.promptEnhancement;
+  const enhancementStrategy = resolveStrategy(enhancementStrategies, selectedStrategyId);
+  const sessionActive = sessionEnabled && capabilities.conversation;
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const dragCounter = useRef(0);
@@ -40,86 +206,264 @@ const Index = () => {
     localStorage.setItem('auto-enhance', autoEnhancePrompt.toString());
   }, [autoEnhancePrompt]);
 
-  // Save API key to localStorage
-  const handleApiKeyChange = (value: string) => {
-    setApiKey(value);
-    localStorage.setItem('gemini_api_key', value);
+  // Save enhanced prompt review preference
+  useEffect(() => {
+    localStorage.setItem('review-enhanced', reviewEnhancedPrompt.toString());
+  }, [reviewEnhancedPrompt]);
+
+  // Save conversational editing preference
+  useEffect(() => {
+    localStorage.setItem('edit-session', sessionEnabled.toString());
+  }, [sessionEnabled]);
+
+  // Save preprocessing settings
+  useEffect(() => {
+    savePreprocessOptions(preprocessOptions);
+  }, [preprocessOptions]);
+
+  // Save variation count preference
+  useEffect(() => {
+    localStorage.setItem('variation-count', variationCount.toString());
+  }, [variationCount]);
+
+  // Save provider choice and per-provider configuration; keys only in plain mode
+  useEffect(() => {
+    saveProviderSettings(providerSettings, keyVault.mode === 'local');
+  }, [providerSettings, keyVault.mode]);
+
+  // Save per-profile usage counters
+  useEffect(() => {
+    saveProfileUsage(profileUsage);
+  }, [profileUsage]);
+
+  // Re-encrypt keys into the vault whenever they change while it is unlocked
+  const { store: storeInVault } = keyVault;
+  useEffect(() => {
+    storeInVault(apiKeysOf(providerSettings)).catch((error) => logError('Failed to update the key vault:', error));
+  }, [providerSettings, storeInVault]);
+
+  // Save output preferences
+  useEffect(() => {
+    localStorage.setItem('aspect-ratio', aspectRatio);
+    localStorage.setItem('output-format', outputFormat);
+  }, [aspectRatio, outputFormat]);
+
+  // Save safety filter thresholds
+  useEffect(() => {
+    saveSafetyThresholds(safetyThresholds);
+  }, [safetyThresholds]);
+
+  // Save prompt templates
+  useEffect(() => {
+    savePromptTemplates(promptTemplates);
+  }, [promptTemplates]);
+
+  // Save style presets and which ones are selected
+  useEffect(() => {
+    saveStylePresets(stylePresets);
+  }, [stylePresets]);
+
+  useEffect(() => {
+    saveSelectedPresetIds(selectedPresetIds);
+  }, [selectedPresetIds]);
+
+  // Save enhancement strategies and the one in use
+  useEffect(() => {
+    saveEnhancementStrategies(enhancementStrategies);
+  }, [enhancementStrategies]);
+
+  useEffect(() => {
+    saveSelectedStrategyId(selectedStrategyId);
+  }, [selectedStrategyId]);
+
+  // Save response cache settings
+  useEffect(() => {
+    saveCacheSettings(cacheSettings);
+  }, [cacheSettings]);
+
+  // Fall back to text to image when switching to a model that can't edit
+  useEffect(() => {
+    if (!supportsImageToImage) setMode('text-to-image');
+  }, [supportsImageToImage]);
+
+  // Drop references beyond what the model accepts
+  useEffect(() => {
+    setReferenceImages((current) => (current.length > maxReferences ? current.slice(0, maxReferences) : current));
+  }, [maxReferences]);
+
+  // The profile a job was queued with, read fresh so key edits (or a vault
+  // unlock) after queueing still apply. A deleted profile fails the job rather
+  // than sending it to another provider, model or key.
+  const resolveProfile = (profileId: string) => {
+    const profile = providerSettings.profiles.find((item) => item.id === profileId);
+    if (!profile) throw new Error('The key profile this job was queued with no longer exists');
+    return { profile, provider: getProvider(profile.providerId), config: profile.config };
+  };
+
+  type JobTarget = ReturnType<typeof resolveProfile>;
+
+  // Send one API request within the profile's per-minute budget, retrying
+  // transient failures with backoff; waits are shown on the job
+  const callApi = <T,>(target: JobTarget, send: () => Promise<T>, { signal, update }: JobContext, message: string): Promise<T> =>
+    withRetry(async () => {
+      await rateLimiterFor(target.profile.id).acquire(target.config.requestsPerMinute, {
+        signal,
+        onWait: (until) => update({ message: 'Request budget used up, next slot in', waitUntil: until }),
+      });
+      update({ message, waitUntil: undefined });
+      setProfileUsage((current) => addUsage(current, target.profile.id, { requests: 1 }));
+      return send();
+    }, {
+      signal,
+      onRetry: ({ attempt, maxAttempts, delayMs, error }) => update({
+        message: `${retryReason(error)}, retrying (${attempt + 1}/${maxAttempts}) in`,
+        waitUntil: Date.now() + delayMs,
+      }),
+    });
+
+  // Log a successful call's tokens and images for the usage dialog
+  const recordUsage = (target: JobTarget, kind: UsageKind, model: string, usage?: TokenUsage, images = 0) => {
+    addUsageRecord({ kind, provider: target.provider.id, profileId: target.profile.id, model, images, usage })
+      .catch((error) => logError('Failed to record usage:', error));
   };
 
-  // Enhance prompt using Gemini API
-  const enhancePrompt = async (originalPrompt: string): Promise<string> => {
-    if (!apiKey.trim() || !originalPrompt.trim()) return originalPrompt;
+  // Cache failures never fail a generation; the API is simply called instead
+  const readCache = <T,>(key: string): Promise<T | undefined> =>
+    getCached<T>(key).catch((error) => {
+      logError('Failed to read response cache:', error);
+      return undefined;
+    });
+
+  const writeCache = (key: string, value: unknown) => {
+    putCached(key, value, cacheSettings.maxMegabytes)
+      .catch((error) => logError('Failed to write response cache:', error));
+  };
+
+  // Enhance prompt with the provider's text model, when it has one, following
+  // the chosen strategy; the reply is cleaned up before use
+  const enhancePrompt = async (
+    originalPrompt: string,
+    strategy: EnhancementStrategy,
+    target: JobTarget,
+    context: JobContext,
+    cache?: CacheMode,
+  ): Promise<string> => {
+    const enhance = target.provider.enhancePrompt;
+    if (!enhance || !originalPrompt.trim()) return originalPrompt;
+    const model = target.config.enhanceModel || target.provider.defaultEnhanceModel || '';
+    const request = { prompt: originalPrompt, ...enhancementParams(strategy) };
 
     try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: `Enhance this image generation prompt to be more descriptive and artistic while keeping the original intent. Make it more detailed for better AI image generation. Original prompt: "${originalPrompt}"`
-              }]
-            }],
-            generationConfig: {
-              maxOutputTokens: 200,
-              temperature: 0.7
-            }
-          })
-        }
-      );
+      const key = cache ? await enhanceCacheKey(target.provider.id, model, request) : null;
+      const cached = key && cache === 'reuse' ? await readCache<string>(key) : undefined;
+      if (cached !== undefined) return cached;
 
-      if (response.ok) {
-        const data = await response.json();
-        const enhancedText = data.candidates?.[0]?.content?.parts?.[0]?.text;
-        return enhancedText || originalPrompt;
-      }
+      const result = await callApi(target, () => enhance({ ...request, signal: context.signal }, target.config), context, `Enhancing prompt (${strategy.name})...`);
+      recordUsage(target, 'enhance', model, result.usage);
+      const enhanced = sanitizeEnhancedPrompt(result.prompt) || originalPrompt;
+      if (key) writeCache(key, enhanced);
+      return enhanced;
     } catch (error) {
-      console.log('Prompt enhancement failed, using original prompt');
+      if (context.signal.aborted) throw error;
+      logError('Prompt enhancement failed, using original prompt:', error);
     }
     
     return originalPrompt;
   };
 
-  // Convert file to base64
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        const result = reader.result as string;
-        const base64 = result.split(',')[1];
-        resolve(base64);
+  // Pause generation until the user accepts, edits or discards the enhanced prompt.
+  // Resolves with the prompt to use, or null when the user or the job cancels.
+  const reviewPrompt = (original: string, enhanced: string, signal: AbortSignal): Promise<string | null> =>
+    new Promise((resolve) => {
+      const onAbort = () => {
+        resolve(null);
+        setPromptReview(null);
       };
-      reader.onerror = error => reject(error);
+      signal.addEventListener('abort', onAbort, { once: true });
+      // Detach once answered, so a later abort can't close another job's review
+      setPromptReview({
+        original,
+        enhanced,
+        resolve: (prompt) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(prompt);
+        },
+      });
     });
+
+  const resolvePromptReview = (prompt: string | null) => {
+    promptReview?.resolve(prompt);
+    setPromptReview(null);
   };
 
-  // Handle file upload
-  const handleFileUpload = async (file: File) => {
-    if (!file.type.startsWith('image/')) {
-      setStatus({ type: 'error', message: 'Please upload a valid image file (JPEG, PNG, WebP)' });
-      return;
+  // Read (and optionally preprocess) one upload; throws with a message for the user
+  const readUpload = useCallback(async (file: File): Promise<ReferenceImage> => {
+    if (!SUPPORTED_IMAGE_TYPES.includes(file.type)) {
+      throw new Error('Please upload a valid image file (JPEG, PNG, WebP)');
+    }
+
+    const maxInputBytes = preprocessOptions.enabled ? MAX_PREPROCESS_INPUT_BYTES : MAX_IMAGE_BYTES;
+    if (file.size > maxInputBytes) {
+      throw new Error(`Image file size must be less than ${formatBytes(maxInputBytes)}`);
     }
 
-    if (file.size > 10 * 1024 * 1024) {
-      setStatus({ type: 'error', message: 'Image file size must be less than 10MB' });
+    if (!preprocessOptions.enabled) {
+      return createReference(await fileToBase64Image(file).catch(() => {
+        throw new Error('Failed to process image file');
+      }));
+    }
+
+    setStatus({ type: 'info', message: `Preparing "${file.name}"...` });
+    const { image, ...preprocess } = await preprocessImage(file, preprocessOptions).catch(() => {
+      throw new Error('Failed to process image file');
+    });
+    if (preprocess.processedBytes > MAX_IMAGE_BYTES) {
+      throw new Error(`Processed image is still larger than ${formatBytes(MAX_IMAGE_BYTES)}; try a smaller max dimension or lower quality`);
+    }
+    return { ...createReference(image), preprocess };
+  }, [preprocessOptions]);
+
+  // Handle file upload, appending up to the reference image limit; files that
+  // can't be read are skipped with a toast so the rest still go in
+  const handleFileUpload = useCallback(async (files: File[]) => {
+    const available = maxReferences - referenceImages.length;
+    if (available <= 0) {
+      setStatus({ type: 'error', message: `You can attach up to ${maxReferences} reference images` });
       return;
     }
 
-    try {
-      const base64 = await fileToBase64(file);
-      setUploadedImage(base64);
-      setUploadedImageName(file.name);
-      setMode('image-to-image');
-      setStatus({ type: 'success', message: `Image "${file.name}" uploaded successfully` });
-    } catch (error) {
-      setStatus({ type: 'error', message: 'Failed to process image file' });
+    const added: ReferenceImage[] = [];
+    for (const file of files.slice(0, available)) {
+      try {
+        added.push(await readUpload(file));
+      } catch (error) {
+        toast({
+          variant: 'destructive',
+          title: `Skipped "${file.name}"`,
+          description: error instanceof Error ? error.message : 'Failed to process image file',
+        });
+      }
     }
-  };
+
+    if (added.length === 0) {
+      setStatus({ type: 'error', message: files.length === 1 ? 'The image could not be added' : 'None of the images could be added' });
+      return;
+    }
+
+    const skipped = Math.min(files.length, available) - added.length;
+    setReferenceImages((current) => [...current, ...added].slice(0, maxReferences));
+    setMode('image-to-image');
+    setStatus({
+      type: 'success',
+      message: files.length > available
+        ? `Added ${added.length} image(s); only ${maxReferences} reference images are allowed`
+        : skipped > 0
+        ? `Added ${added.length} image(s); ${skipped} could not be read`
+        : added.length === 1
+        ? `Image "${added[0].image.name}" uploaded successfully`
+        : `${added.length} images uploaded successfully`
+    });
+  }, [readUpload, referenceImages.length, maxReferences]);
 
   // Drag and drop handlers
   const handleDragEnter = useCallback((e: React.DragEvent) => {
@@ -152,15 +496,162 @@ const Index = () => {
     dragCounter.current = 0;
 
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const file = e.dataTransfer.files[0];
-      handleFileUpload(file);
+      handleFileUpload(Array.from(e.dataTransfer.files));
     }
-  }, []);
+  }, [handleFileUpload]);
+
+  // Run one queued generation: enhance, optionally review, then generate variations
+  const executeGeneration: JobExecutor<GenerationJobInput, GenerationResult[]> = async (input, context) => {
+    const { signal, update } = context;
+    const { prompt, mode, variationCount } = input;
+    const target = resolveProfile(input.profileId);
+    // The mask editor is hidden for models without mask support, but masks
+    // painted earlier are still attached; don't send them
+    const references = resolveImageModel(target.provider, target.config.model).masks
+      ? input.references
+      : input.references.map(({ mask: _mask, ...reference }) => reference);
+    const generatingMessage = variationCount > 1 ? `Generating ${variationCount} variations...` : 'Generating image...';
+    // Style presets apply before enhancement, so the enhancer sees them too
+    const styledPrompt = input.styledPrompt ?? prompt;
+    let finalPrompt = styledPrompt;
+
+    try {
+
+      // Enhance prompt if auto-enhance was enabled when the job was queued
+      if (input.autoEnhance) {
+        const strategy = input.enhancementStrategy ?? STARTER_STRATEGIES[0];
+        update({ status: 'enhancing', message: `Enhancing prompt (${strategy.name})...` });
+        finalPrompt = await enhancePrompt(styledPrompt, strategy, target, context, input.cache);
+
+        if (input.reviewEnhanced) {
+          update({ message: 'Waiting for prompt review...' });
+          const reviewed = await reviewPrompt(styledPrompt, finalPrompt, signal);
+          if (reviewed === null) throw new DOMException('Prompt review cancelled', 'AbortError');
+          finalPrompt = reviewed;
+        }
+      }
+
+      update({ status: 'generating', progress: 0, message: generatingMessage });
+
+      // Read the session at run time so queued jobs continue from the turns before them
+      const session = editSession.getSession();
+      const parentTurnId = input.session ? session.headId : null;
+
+      const request = {
+        prompt: finalPrompt,
+        references,
+        history: input.session ? pathTo(session, parentTurnId) : undefined,
+        aspectRatio: input.aspectRatio,
+        outputFormat: input.outputFormat,
+        safety: input.safety,
+        negativePrompt: input.negativePrompt,
+        signal,
+        onProgress: ({ stage, text }: GenerationProgress) => update({ message: STAGE_MESSAGES[stage], text }),
+      };
+      const run = references.length > 0 || request.history?.length ? target.provider.edit : target.provider.generate;
+      const model = target.config.model || target.provider.defaultModel;
+
+      // One variation, from the cache when allowed and stored there afterwards
+      const generateVariation = async (variation: number): Promise<ImageResult & Pick<GenerationResult, 'cached' | 'cacheKey'>> => {
+        const key = input.cache ? await imageCacheKey(target.provider.id, model, request, variation) : undefined;
+        const cached = key && input.cache === 'reuse' ? await readCache<ImageResult>(key) : undefined;
+        if (cached) return { ...cached, cached: true, cacheKey: key };
+
+        const result = await callApi(target, () => run(request, target.config), context, generatingMessage);
+        recordUsage(target, 'generate', model, result.usage, result.images.length);
+        if (key && result.images.length > 0) writeCache(key, { images: result.images, text: result.text });
+        return { ...result, cacheKey: key };
+      };
+
+      // Image models return a single result per call, so variations are parallel calls
+      let completed = 0;
+      const settled = await Promise.allSettled(
+        Array.from({ length: variationCount }, (_, variation) =>
+          generateVariation(variation)
+            .finally(() => {
+              completed++;
+              update({ progress: completed / variationCount });
+            })
+        )
+      );
+
+      if (signal.aborted) throw new DOMException('Generation cancelled', 'AbortError');
+
+      let generated = settled.flatMap((result): GenerationResult[] => {
+        if (result.status !== 'fulfilled') return [];
+        const [image] = result.value.images;
+        const { text, cached, cacheKey } = result.value;
+        return image ? [{ image, text, cached, cacheKey }] : [];
+      });
+
+      if (generated.length === 0) {
+        const rejected = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        throw rejected?.reason ?? new ProviderError(target.provider.id, 'No image data found in the response');
+      }
+
+      // In a session every variation becomes a sibling branch of the current turn
+      if (input.session) {
+        const turnReferences = newReferences(request.history ?? [], references);
+        const turns = editSession.addTurns(parentTurnId, generated.map(({ image, text }) => ({
+          instruction: finalPrompt,
+          references: turnReferences.length > 0 ? turnReferences : undefined,
+          image,
+          text,
+        })));
+        generated = generated.map((result, index) => ({ ...result, turnId: turns[index].id }));
+      }
+
+      setResults(generated);
+      setSelectedImageIndex(0);
+      setLastPrompts({ original: prompt, final: finalPrompt });
+      const fresh = generated.filter((result) => !result.cached);
+      setProfileUsage((current) => addUsage(current, target.profile.id, { images: fresh.length }));
+      if (generated.length < variationCount) {
+        setStatus({ type: 'info', message: `Generated ${generated.length} of ${variationCount} variations` });
+      }
+
+      // Cached results are saved again only if their entry was deleted since
+      for (const { image, text, cached, cacheKey } of generated) {
+        (cached ? history.addOnce : history.add)({
+          prompt,
+          enhancedPrompt: finalPrompt !== prompt ? finalPrompt : undefined,
+          mode,
+          provider: target.provider.id,
+          profileId: target.profile.id,
+          model,
+          referenceImages: references.length > 0 ? references : undefined,
+          image,
+          responseText: text,
+          cacheKey,
+        }).catch((error) => logError('Failed to save generation to history:', error));
+      }
+
+      return generated;
+    } catch (error) {
+      if (!signal.aborted) logError('Error generating image:', error);
+      if (isSafetyBlockError(error)) setSafetyBlock({ prompt: finalPrompt, block: error.block });
+      throw error;
+    }
+  };
+
+  const queue = useJobQueue(executeGeneration, {
+    firstPhase: (input) => (input.autoEnhance ? 'enhancing' : 'generating'),
+  });
+  const activeJobs = queue.jobs.filter((job) => !isJobFinished(job.status));
+  const isEnhancing = activeJobs.some((job) => job.status === 'enhancing');
+  const waitingJob = activeJobs.find((job) => job.waitUntil);
+  const runningJob = activeJobs.find((job) => job.status === 'generating');
 
-  // Generate image using Gemini API
-  const generateImage = async () => {
-    if (!apiKey.trim()) {
-      setStatus({ type: 'error', message: 'Please enter your Google API Key' });
+  // Validate the editor and add a generation to the queue; forcing skips any
+  // cached response and replaces it with the new one
+  const generateImage = (forceRegenerate = false) => {
+    if (!hasCredentials && keyVault.canUnlock) {
+      setShowUnlock(true);
+      return;
+    }
+
+    if (!hasCredentials) {
+      setStatus({ type: 'error', message: `Please enter your ${provider.name} API Key` });
       return;
     }
 
@@ -169,92 +660,86 @@ const Index = () => {
       return;
     }
 
-    if (mode === 'image-to-image' && !uploadedImage) {
+    // A running (or already queued) session carries the image being edited
+    const continuesSession = sessionActive &&
+      (editSession.session.headId !== null || activeJobs.some((job) => job.input.session));
+
+    if (mode === 'image-to-image' && referenceImages.length === 0 && !continuesSession) {
       setStatus({ type: 'error', message: 'Please upload an image for image-to-image mode' });
       return;
     }
 
-    setIsLoading(true);
-    setStatus({ type: 'info', message: 'Generating image...' });
+    setStatus({ type: null, message: '' });
+    setSafetyBlock(null);
+    queue.enqueue({
+      prompt,
+      styledPrompt: styled?.prompt,
+      negativePrompt: styled?.negativePrompt,
+      mode,
+      references: mode === 'image-to-image' ? referenceImages : [],
+      variationCount,
+      autoEnhance: autoEnhanceActive,
+      enhancementStrategy: autoEnhanceActive ? enhancementStrategy : undefined,
+      reviewEnhanced: reviewEnhancedPrompt,
+      session: sessionActive,
+      profileId: activeProfile.id,
+      // Only sent when the model offers a choice
+      aspectRatio: imageModel.aspectRatios.length > 1 ? activeAspectRatio : undefined,
+      outputFormat: imageModel.outputFormats.length > 1 ? activeOutputFormat : undefined,
+      safety: capabilities.safetySettings ? safetyThresholds : undefined,
+      cache: cacheSettings.enabled ? (forceRegenerate ? 'refresh' : 'reuse') : undefined,
+    });
+  };
 
-    try {
-      let finalPrompt = prompt;
-      
-      // Enhance prompt if auto-enhance is enabled
-      if (autoEnhancePrompt) {
-        setIsEnhancing(true);
-        setStatus({ type: 'info', message: 'Enhancing prompt...' });
-        finalPrompt = await enhancePrompt(prompt);
-        setIsEnhancing(false);
-        setStatus({ type: 'info', message: 'Generating image...' });
-      }
+  // Restore a history entry into the editor
+  const restoreFromHistory = (entry: HistoryEntry) => {
+    setPrompt(entry.prompt);
+    setMode(entry.mode);
+    setReferenceImages(historyReferences(entry));
+    setResults([{ image: entry.image, text: entry.responseText }]);
+    setSelectedImageIndex(0);
+    setLastPrompts({ original: entry.prompt, final: entry.enhancedPrompt ?? entry.prompt });
+    setStatus({ type: 'info', message: 'Restored generation from history' });
+  };
 
-      const requestBody: any = {
-        contents: [{
-          parts: [
-            { text: finalPrompt }
-          ]
-        }],
-        generationConfig: { responseModalities: ["TEXT", "IMAGE"] }
-      };
+  const deleteFromHistory = (id: string) => {
+    history.remove(id).catch(() => setStatus({ type: 'error', message: 'Failed to delete history entry' }));
+  };
 
-      if (mode === 'image-to-image' && uploadedImage) {
-        requestBody.contents[0].parts.push({
-          inline_data: {
-            mime_type: "image/jpeg",
-            data: uploadedImage
-          }
-        });
-      }
+  const clearHistory = () => {
+    history.clear().catch(() => setStatus({ type: 'error', message: 'Failed to clear history' }));
+  };
 
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-preview-image-generation:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody)
-        }
-      );
+  const selectVariation = (index: number) => {
+    setSelectedImageIndex(index);
+    const turnId = results[index]?.turnId;
+    if (turnId) editSession.checkout(turnId);
+  };
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error?.message || `HTTP error! status: ${response.status}`);
-      }
+  // Roll the editing session back to a turn; the next prompt branches from it
+  const selectSessionTurn = (turn: SessionTurn) => {
+    editSession.checkout(turn.id);
+    setResults([{ image: turn.image, text: turn.text, turnId: turn.id }]);
+    setSelectedImageIndex(0);
+    setLastPrompts({ original: turn.instruction, final: turn.instruction });
+  };
 
-      const data = await response.json();
-      
-      const imagePart = data.candidates?.[0]?.content?.parts?.find((part: any) => part.inlineData);
-      
-      if (imagePart?.inlineData?.data) {
-        setGeneratedImage(imagePart.inlineData.data);
-        setStatus({ type: 'success', message: 'Image generated successfully!' });
-      } else {
-        throw new Error('No image data found in the response');
-      }
-    } catch (error: any) {
-      console.error('Error generating image:', error);
-      setStatus({ 
-        type: 'error', 
-        message: error.message || 'Failed to generate image. Please check your API key and try again.' 
-      });
-    } finally {
-      setIsLoading(false);
-      setIsEnhancing(false);
-    }
+  // Use the selected result as the source image for another round
+  const iterateOnImage = () => {
+    if (!generatedImage) return;
+
+    setReferenceImages([createReference({
+      ...generatedImage,
+      name: withExtension(`variation-${selectedImageIndex + 1}`, generatedImage.mimeType),
+    })]);
+    setMode('image-to-image');
+    setStatus({ type: 'info', message: 'Selected image loaded as the source image. Click its thumbnail to paint a region to edit.' });
   };
 
-  // Download generated image
-  const downloadImage = () => {
+  // Download generated image with the extension of its actual format
+  const downloadGeneratedImage = () => {
     if (!generatedImage) return;
-    
-    const link = document.createElement('a');
-    link.href = `data:image/jpeg;base64,${generatedImage}`;
-    link.download = `swap-creations-${Date.now()}.jpg`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadImage(generatedImage, `swap-creations-${Date.now()}`);
   };
 
   return (
@@ -274,13 +759,26 @@ const Index = () => {
           </div>
           
           <div className="flex items-center space-x-4">
+            <button
+              type="button"
+              onClick={() => setShowUsage(true)}
+              className="flex items-center gap-1 text-sm text-purple-200 hover:text-white"
+            >
+              <BarChart3 className="w-4 h-4" />
+              Usage
+            </button>
+
+            {/* Credential Profile */}
+            <ProfileSwitcher settings={providerSettings} onChange={setProviderSettings} />
+
             {/* Auto Enhance Toggle */}
             <div className="flex items-center space-x-2">
               <Sparkles className="w-4 h-4 text-purple-300" />
               <span className="text-sm text-purple-200">Auto Enhance</span>
               <Switch
-                checked={autoEnhancePrompt}
+                checked={autoEnhanceActive}
                 onCheckedChange={setAutoEnhancePrompt}
+                disabled={!capabilities.promptEnhancement}
               />
             </div>
             
@@ -301,27 +799,26 @@ const Index = () => {
         <div className="grid lg:grid-cols-2 gap-8">
           {/* Input Panel */}
           <div className="space-y-6">
-            {/* API Key Input */}
-            <Card className="bg-white/10 backdrop-blur-lg border-white/20">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2 text-white">
-                  <Key className="w-5 h-5" />
-                  API Configuration
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <Input
-                  type="password"
-                  placeholder="Enter your Google API Key"
-                  value={apiKey}
-                  onChange={(e) => handleApiKeyChange(e.target.value)}
-                  className="bg-white/10 border-white/20 text-white placeholder-white/60"
-                />
-                <p className="text-sm text-purple-200 mt-2">
-                  Your API key is stored locally and never sent to our servers
-                </p>
-              </CardContent>
-            </Card>
+            {/* Provider and API Key */}
+            <ProviderConfigCard
+              settings={providerSettings}
+              onChange={setProviderSettings}
+              keysLocked={keyVault.isLocked}
+              usage={profileUsage[activeProfile.id]}
+              onResetUsage={() => setProfileUsage((current) => resetUsage(current, activeProfile.id))}
+            >
+              <KeyStorageSettings
+                mode={keyVault.mode}
+                isLocked={keyVault.isLocked}
+                autoLockMinutes={keyVault.autoLockMinutes}
+                onAutoLockChange={keyVault.setAutoLockMinutes}
+                onEnableVault={(passphrase) => keyVault.enableVault(passphrase, apiKeysOf(providerSettings))}
+                onDisableVault={keyVault.disableVault}
+                onLock={keyVault.lock}
+                onUnlock={() => setShowUnlock(true)}
+              />
+              <ResponseCacheSettings settings={cacheSettings} onChange={setCacheSettings} />
+            </ProviderConfigCard>
 
             {/* Mode Selection */}
             <Card className="bg-white/10 backdrop-blur-lg border-white/20">
@@ -344,6 +841,7 @@ const Index = () => {
                   <Button
                     variant={mode === 'image-to-image' ? 'default' : 'outline'}
                     onClick={() => setMode('image-to-image')}
+                    disabled={!supportsImageToImage}
                     className={mode === 'image-to-image' 
                       ? 'bg-purple-600 hover:bg-purple-700 text-white' 
                       : 'bg-white/10 border-white/20 text-white hover:bg-white/20'
@@ -353,6 +851,17 @@ const Index = () => {
                     Image to Image
                   </Button>
                 </div>
+                <div className="flex items-center justify-between mt-4">
+                  <span className="flex items-center gap-2 text-sm text-purple-200">
+                    <MessagesSquare className="w-4 h-4" />
+                    Conversational editing
+                  </span>
+                  <Switch
+                    checked={sessionActive}
+                    onCheckedChange={setSessionEnabled}
+                    disabled={!capabilities.conversation}
+                  />
+                </div>
               </CardContent>
             </Card>
 
@@ -362,7 +871,7 @@ const Index = () => {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2 text-white">
                     <Upload className="w-5 h-5" />
-                    Upload Source Image
+                    Reference Images
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
@@ -378,51 +887,40 @@ const Index = () => {
                     onDrop={handleDrop}
                     onClick={() => fileInputRef.current?.click()}
                   >
-                    {uploadedImage ? (
-                      <div className="space-y-4">
-                        <img
-                          src={`data:image/jpeg;base64,${uploadedImage}`}
-                          alt="Uploaded"
-                          className="max-w-full max-h-48 mx-auto rounded-lg shadow-lg"
-                        />
-                        <p className="text-purple-200">{uploadedImageName}</p>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            setUploadedImage(null);
-                            setUploadedImageName('');
-                          }}
-                          className="bg-white/10 border-white/20 text-white hover:bg-white/20"
-                        >
-                          Remove Image
-                        </Button>
-                      </div>
-                    ) : (
-                      <div className="space-y-4">
-                        <Upload className="w-12 h-12 mx-auto text-white/60" />
-                        <div>
-                          <p className="text-white font-medium">
-                            {isDragging ? 'Drop image here' : 'Click to upload or drag and drop'}
-                          </p>
-                          <p className="text-purple-200 text-sm mt-1">
-                            JPEG, PNG, WebP (max 10MB)
-                          </p>
-                        </div>
+                    <div className="space-y-4">
+                      <Upload className="w-12 h-12 mx-auto text-white/60" />
+                      <div>
+                        <p className="text-white font-medium">
+                          {isDragging ? 'Drop images here' : 'Click to upload or drag and drop'}
+                        </p>
+                        <p className="text-purple-200 text-sm mt-1">
+                          JPEG, PNG, WebP (max {formatBytes(preprocessOptions.enabled ? MAX_PREPROCESS_INPUT_BYTES : MAX_IMAGE_BYTES)}) • up to {maxReferences} images
+                        </p>
                       </div>
-                    )}
+                    </div>
                   </div>
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept="image/jpeg,image/png,image/webp"
+                    accept={SUPPORTED_IMAGE_TYPES.join(',')}
+                    multiple
                     onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      if (file) handleFileUpload(file);
+                      const files = Array.from(e.target.files ?? []);
+                      if (files.length > 0) handleFileUpload(files);
+                      e.target.value = '';
                     }}
                     className="hidden"
                   />
+                  {referenceImages.length > 0 && (
+                    <div className="mt-4">
+                      <ReferenceImageList
+                        references={referenceImages}
+                        onChange={setReferenceImages}
+                        allowMasks={imageModel.masks}
+                      />
+                    </div>
+                  )}
+                  <PreprocessSettings options={preprocessOptions} onChange={setPreprocessOptions} />
                 </CardContent>
               </Card>
             )}
@@ -432,13 +930,24 @@ const Index = () => {
               <CardHeader>
                 <CardTitle className="flex items-center justify-between text-white">
                   <span>Prompt</span>
-                  {autoEnhancePrompt && (
-                    <div className="flex items-center gap-2 text-sm text-purple-300">
-                      <Sparkles className="w-4 h-4" />
-                      Auto Enhancement: ON
-                      {isEnhancing && <Loader2 className="w-4 h-4 animate-spin" />}
-                    </div>
-                  )}
+                  <div className="flex items-center gap-3">
+                    {autoEnhanceActive && (
+                      <div className="flex items-center gap-2 text-sm text-purple-300">
+                        <Sparkles className="w-4 h-4" />
+                        Auto Enhancement: ON
+                        {isEnhancing && <Loader2 className="w-4 h-4 animate-spin" />}
+                      </div>
+                    )}
+                    <Button
+                      onClick={() => setShowTemplates(true)}
+                      variant="outline"
+                      size="sm"
+                      className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                    >
+                      <BookOpen className="w-4 h-4 mr-2" />
+                      Templates
+                    </Button>
+                  </div>
                 </CardTitle>
               </CardHeader>
               <CardContent>
@@ -453,24 +962,124 @@ const Index = () => {
                   rows={4}
                   className="bg-white/10 border-white/20 text-white placeholder-white/60 resize-none"
                 />
-                {autoEnhancePrompt && (
-                  <p className="text-xs text-purple-300 mt-2">
-                    ✨ Your prompt will be automatically enhanced for better results
-                  </p>
+                {autoEnhanceActive && (
+                  <div className="flex items-center justify-between mt-2">
+                    <p className="text-xs text-purple-300">
+                      ✨ Your prompt will be automatically enhanced for better results
+                    </p>
+                    <label className="flex items-center gap-2 text-xs text-purple-200">
+                      Review first
+                      <Switch
+                        checked={reviewEnhancedPrompt}
+                        onCheckedChange={setReviewEnhancedPrompt}
+                      />
+                    </label>
+                  </div>
+                )}
+                {autoEnhanceActive && (
+                  <div className="flex items-center gap-2 mt-2">
+                    <span className="text-xs text-purple-200">Strategy</span>
+                    <Select value={enhancementStrategy.id} onValueChange={setSelectedStrategyId}>
+                      <SelectTrigger className="h-8 flex-1 bg-white/10 border-white/20 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {enhancementStrategies.map((strategy) => (
+                          <SelectItem key={strategy.id} value={strategy.id}>{strategy.name || 'Untitled'}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      onClick={() => setShowStrategyEditor(true)}
+                      variant="ghost"
+                      size="sm"
+                      className="text-purple-200 hover:bg-white/10 hover:text-white"
+                    >
+                      <Settings2 className="w-4 h-4 mr-1" />
+                      Edit
+                    </Button>
+                  </div>
+                )}
+                <div className="flex items-center justify-between mt-4">
+                  <span className="text-sm text-purple-200">Variations</span>
+                  <ToggleGroup
+                    type="single"
+                    value={variationCount.toString()}
+                    onValueChange={(value) => value && setVariationCount(Number(value))}
+                  >
+                    {VARIATION_OPTIONS.map((count) => (
+                      <ToggleGroupItem
+                        key={count}
+                        value={count.toString()}
+                        size="sm"
+                        className="w-9 text-white data-[state=on]:bg-purple-600 data-[state=on]:text-white hover:bg-white/20 hover:text-white"
+                      >
+                        {count}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
+                <div className="grid grid-cols-2 gap-3 mt-4">
+                  <div className="space-y-1">
+                    <span className="text-xs text-purple-200">Aspect ratio</span>
+                    <Select
+                      value={activeAspectRatio}
+                      onValueChange={(value) => setAspectRatio(value as AspectRatio)}
+                      disabled={imageModel.aspectRatios.length < 2}
+                    >
+                      <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {imageModel.aspectRatios.map((ratio) => (
+                          <SelectItem key={ratio} value={ratio}>{ratio}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <span className="text-xs text-purple-200">Output format</span>
+                    <Select
+                      value={activeOutputFormat}
+                      onValueChange={(value) => setOutputFormat(value as OutputFormat)}
+                      disabled={imageModel.outputFormats.length < 2}
+                    >
+                      <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {imageModel.outputFormats.map((format) => (
+                          <SelectItem key={format} value={format}>{extensionForMimeType(format).toUpperCase()}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {capabilities.safetySettings && (
+                  <SafetySettings thresholds={safetyThresholds} onChange={setSafetyThresholds} />
                 )}
               </CardContent>
             </Card>
 
+            {/* Style Presets */}
+            <StylePresetGrid
+              presets={stylePresets}
+              selectedIds={selectedPresetIds}
+              onSelectedChange={setSelectedPresetIds}
+              onManage={() => setShowPresetEditor(true)}
+              styled={styled}
+            />
+
             {/* Generate Button */}
             <Button
-              onClick={generateImage}
-              disabled={isLoading || !apiKey.trim() || !prompt.trim()}
+              onClick={() => generateImage()}
+              disabled={(!hasCredentials && !keyVault.canUnlock) || !prompt.trim()}
               className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-semibold py-6 text-lg disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isLoading ? (
+              {activeJobs.length > 0 ? (
                 <>
-                  <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                  {isEnhancing ? 'Enhancing Prompt...' : 'Generating...'}
+                  <ListPlus className="w-5 h-5 mr-2" />
+                  Add to Queue ({activeJobs.length} active)
                 </>
               ) : (
                 <>
@@ -479,6 +1088,17 @@ const Index = () => {
                 </>
               )}
             </Button>
+            {cacheSettings.enabled && (
+              <Button
+                onClick={() => generateImage(true)}
+                disabled={(!hasCredentials && !keyVault.canUnlock) || !prompt.trim()}
+                variant="outline"
+                className="w-full bg-white/10 border-white/20 text-white hover:bg-white/20"
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Force regenerate (skip cache)
+              </Button>
+            )}
           </div>
 
           {/* Output Panel */}
@@ -499,6 +1119,32 @@ const Index = () => {
               </Alert>
             )}
 
+            {safetyBlock && (
+              <SafetyBlockAlert
+                prompt={safetyBlock.prompt}
+                block={safetyBlock.block}
+                onDismiss={() => setSafetyBlock(null)}
+              />
+            )}
+
+            {/* Backoff / request budget countdown */}
+            {waitingJob?.waitUntil && (
+              <Alert className="border-2 bg-yellow-900/20 border-yellow-500/50 text-yellow-200">
+                <Clock className="h-4 w-4" />
+                <AlertDescription>
+                  {waitingJob.message} <Countdown until={waitingJob.waitUntil} />
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Generation Queue */}
+            <QueuePanel
+              jobs={queue.jobs}
+              onCancel={queue.cancel}
+              onRemove={queue.remove}
+              onClearFinished={queue.clearFinished}
+            />
+
             {/* Generated Image Display */}
             <Card className="bg-white/10 backdrop-blur-lg border-white/20">
               <CardHeader>
@@ -506,25 +1152,41 @@ const Index = () => {
                   <span className="flex items-center gap-2">
                     <ImageIcon className="w-5 h-5" />
                     Generated Image
+                    {selectedResult?.cached && (
+                      <Badge variant="outline" className="border-purple-300/50 text-purple-200">From cache</Badge>
+                    )}
                   </span>
                   {generatedImage && (
-                    <Button
-                      onClick={downloadImage}
-                      variant="outline"
-                      size="sm"
-                      className="bg-white/10 border-white/20 text-white hover:bg-white/20"
-                    >
-                      <Download className="w-4 h-4 mr-2" />
-                      Download
-                    </Button>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        onClick={iterateOnImage}
+                        disabled={!supportsImageToImage}
+                        variant="outline"
+                        size="sm"
+                        className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                      >
+                        <Repeat className="w-4 h-4 mr-2" />
+                        Iterate
+                      </Button>
+                      <Button
+                        onClick={downloadGeneratedImage}
+                        variant="outline"
+                        size="sm"
+                        className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                      >
+                        <Download className="w-4 h-4 mr-2" />
+                        Download
+                      </Button>
+                    </div>
                   )}
                 </CardTitle>
               </CardHeader>
               <CardContent>
+                {runningJob && <LiveGeneration job={runningJob} onCancel={queue.cancel} />}
                 <div className="aspect-square bg-white/5 rounded-lg border-2 border-dashed border-white/20 flex items-center justify-center min-h-[400px]">
                   {generatedImage ? (
                     <img
-                      src={`data:image/jpeg;base64,${generatedImage}`}
+                      src={toDataUrl(generatedImage)}
                       alt="Generated"
                       className="max-w-full max-h-full rounded-lg shadow-2xl"
                     />
@@ -541,15 +1203,95 @@ const Index = () => {
                     </div>
                   )}
                 </div>
+                <VariationGrid
+                  images={results.map((result) => result.image)}
+                  selectedIndex={selectedImageIndex}
+                  onSelect={selectVariation}
+                />
+                {lastPrompts && selectedResult && (
+                  <GenerationDetails
+                    originalPrompt={lastPrompts.original}
+                    finalPrompt={lastPrompts.final}
+                    responseText={selectedResult.text}
+                  />
+                )}
               </CardContent>
             </Card>
+
+            {/* Editing Session */}
+            {sessionActive && (
+              <SessionTimeline
+                session={editSession.session}
+                onSelect={selectSessionTurn}
+                onStartOver={() => editSession.checkout(null)}
+                onReset={editSession.reset}
+              />
+            )}
+
+            {/* Generation History */}
+            <HistoryPanel
+              entries={history.entries}
+              isLoading={history.isLoading}
+              onRestore={restoreFromHistory}
+              onDelete={deleteFromHistory}
+              onClear={clearHistory}
+            />
           </div>
         </div>
 
+        <UsageDialog open={showUsage} onOpenChange={setShowUsage} profiles={providerSettings.profiles} />
+
+        <VaultUnlockDialog
+          open={showUnlock && keyVault.canUnlock}
+          onUnlock={async (passphrase) => {
+            await keyVault.unlock(passphrase);
+            setShowUnlock(false);
+          }}
+          onCancel={() => setShowUnlock(false)}
+          onForget={() => {
+            keyVault.disableVault('session');
+            setShowUnlock(false);
+          }}
+        />
+
+        <PromptReviewDialog
+          open={promptReview !== null}
+          original={promptReview?.original ?? ''}
+          enhanced={promptReview?.enhanced ?? ''}
+          onAccept={(accepted) => resolvePromptReview(accepted)}
+          onUseOriginal={() => resolvePromptReview(promptReview?.original ?? prompt)}
+          onCancel={() => resolvePromptReview(null)}
+        />
+
+        <PromptTemplateLibrary
+          open={showTemplates}
+          onOpenChange={setShowTemplates}
+          templates={promptTemplates}
+          onChange={setPromptTemplates}
+          currentPrompt={prompt}
+          onUse={setPrompt}
+        />
+
+        <StylePresetEditor
+          open={showPresetEditor}
+          onOpenChange={setShowPresetEditor}
+          presets={stylePresets}
+          onChange={setStylePresets}
+          generatedImage={generatedImage}
+        />
+
+        <EnhancementStrategyEditor
+          open={showStrategyEditor}
+          onOpenChange={setShowStrategyEditor}
+          strategies={enhancementStrategies}
+          onChange={setEnhancementStrategies}
+          initialId={enhancementStrategy.id}
+        />
+
         {/* Footer */}
         <div className="text-center mt-12 text-purple-200">
           <p className="text-sm">
-            Powered by Google Gemini 2.0 Flash • Built with React & Tailwind CSS
+            Powered by {provider.name} • Built with React & Tailwind CSS
           </p>
         </div>
       </div>
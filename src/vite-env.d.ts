@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GEMINI_BASE_URL?: string;
+  readonly VITE_PROXY_URL?: string;
+  readonly VITE_MOCK_PROVIDER?: string;
+  readonly VITE_MOCK_LATENCY_MS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}